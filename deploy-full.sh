@@ -90,7 +90,7 @@ EOL
 
 # Deploy to Firebase
 echo "🔥 Deploying to Firebase..."
-firebase deploy --only hosting
+firebase deploy --only hosting,functions
 
 echo "✅ Deployment complete!"
 echo "🌐 Your app is now available at: https://burrow-51943.web.app" 
\ No newline at end of file
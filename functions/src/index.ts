@@ -0,0 +1,95 @@
+import { onRequest, type Request as FunctionsRequest } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import type { Response as ExpressResponse } from 'express';
+import { AI_REQUEST_HANDLERS } from '@/lib/ai/handlers';
+import { AiError } from '@/lib/ai/errors';
+
+// Stored with `firebase functions:secrets:set GEMINI_API_KEY`, or in
+// functions/.secret.local for the emulator; exposed to the handlers as process.env
+const geminiApiKey = defineSecret('GEMINI_API_KEY');
+
+// Hosting rewrites /api/** here with the prefix intact; calls to the function
+// URL itself (local development) arrive without it
+const toHandlerPath = (path: string): string => path.replace(/^\/api(?=\/)/, '').replace(/\/+$/, '');
+
+/**
+ * Converts the Express request Cloud Functions hands us into a Fetch API
+ * Request for the shared handlers
+ *
+ * @param req - Incoming request, with its body already buffered
+ * @param signal - Aborted when the client disconnects
+ */
+function toFetchRequest(req: FunctionsRequest, signal: AbortSignal): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+
+  return new Request(`${req.protocol}://${req.get('host')}${req.originalUrl}`, {
+    method: req.method,
+    headers,
+    // Copy the Buffer into a plain Uint8Array, which BodyInit accepts
+    body: hasBody ? new Uint8Array(req.rawBody) : undefined,
+    signal,
+  });
+}
+
+/**
+ * Writes a Fetch API Response back through Express, streaming the body so
+ * Server-Sent Events reach the client as they are produced
+ */
+async function sendFetchResponse(response: Response, res: ExpressResponse): Promise<void> {
+  res.status(response.status);
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  res.flushHeaders();
+  const reader = response.body.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  } finally {
+    res.end();
+  }
+}
+
+/**
+ * The AI API: explore answers, branch regeneration and node chat. Provider
+ * keys stay on the server; the browser only ever sees generated text.
+ */
+export const ai = onRequest(
+  {
+    secrets: [geminiApiKey],
+    cors: true,
+    timeoutSeconds: 120,
+  },
+  async (req, res) => {
+    const handler = AI_REQUEST_HANDLERS[toHandlerPath(req.path)];
+
+    if (!handler || req.method !== 'POST') {
+      const error = new AiError('invalid_request', `No AI endpoint for ${req.method} ${req.path}`);
+      res.status(404).json(error.toBody());
+      return;
+    }
+
+    // Stop generating (and stop paying for tokens) once the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    const response = await handler(toFetchRequest(req, controller.signal));
+    await sendFetchResponse(response, res);
+  }
+);
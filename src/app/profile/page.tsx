@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import ProtectedRoute from '@/components/ProtectedRoute';
+import UsageSummary from '@/components/UsageSummary';
 import { useAuth } from '@/contexts/AuthContext';
 import Link from 'next/link';
 
@@ -49,6 +50,8 @@ export default function ProfilePage() {
               </div>
             </div>
 
+            <UsageSummary userId={user?.uid} />
+
             <div className="pt-4 space-y-2">
               <Link
                 href="/"
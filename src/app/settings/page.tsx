@@ -0,0 +1,31 @@
+'use client';
+
+import ProtectedRoute from '@/components/ProtectedRoute';
+import PromptTemplateSettings from '@/components/PromptTemplateSettings';
+import Link from 'next/link';
+
+export default function SettingsPage() {
+  return (
+    <ProtectedRoute>
+      <div className="flex min-h-screen flex-col bg-background">
+        <header className="flex items-center justify-between border-b border-border px-4 py-3">
+          <h1 className="text-xl font-bold text-foreground">Burrow</h1>
+          <div className="flex items-center space-x-4">
+            <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">
+              Back to Canvas
+            </Link>
+          </div>
+        </header>
+        <main className="flex flex-1 justify-center p-4">
+          <div className="w-full max-w-2xl space-y-8 rounded-lg bg-card p-8 shadow-lg">
+            <div className="text-center">
+              <h2 className="text-2xl font-bold text-card-foreground">Prompt Templates</h2>
+            </div>
+
+            <PromptTemplateSettings />
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
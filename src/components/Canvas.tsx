@@ -17,6 +17,7 @@ import NodeConnections from './canvas/NodeConnections';
 import { ZoomProvider } from '@/contexts';
 import { cn } from '@/lib/utils';
 import CanvasContent from './canvas/CanvasContent';
+import SynthesisBar from './canvas/SynthesisBar';
 
 /**
  * Canvas Component
@@ -37,7 +38,7 @@ import CanvasContent from './canvas/CanvasContent';
  * @returns React component that renders the interactive canvas
  */
 export default function Canvas(): React.ReactElement {
-  const { nodes, activeNodeId, updateNodePosition, setActiveNode } = useExplorationStore();
+  const { nodes, activeNodeId, selectedNodeIds, updateNodePosition, setActiveNode } = useExplorationStore();
   
   // Use motion values for better performance with hardware acceleration
   const scale = useMotionValue<number>(1);
@@ -465,11 +466,17 @@ export default function Canvas(): React.ReactElement {
               <CanvasContent 
                 nodes={nodes}
                 activeNodeId={activeNodeId}
+                selectedNodeIds={selectedNodeIds}
                 draggingNodeId={draggingNodeId}
                 handleNodeMouseDown={handleNodeMouseDown}
               />
             </motion.div>
             
+            {/* Synthesis of the shift-clicked nodes - fixed position */}
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20">
+              <SynthesisBar />
+            </div>
+            
             {/* Zoom Controls - fixed position */}
             <div className="absolute bottom-4 right-4 z-20">
               <ZoomControls 
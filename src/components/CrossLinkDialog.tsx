@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, RotateCw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import NodeError from '@/components/canvas/NodeError';
+import FallbackModelNote from '@/components/canvas/FallbackModelNote';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from '@/hooks/useGemini';
+import { CROSS_LINK_RELATION_OPTIONS } from '@/config/aiConfig';
+import { AiError, isCancelledError, toAiError } from '@/lib/ai/errors';
+import { CrossLink, Node } from '@/types';
+
+/**
+ * Props for the CrossLinkDialog component
+ */
+interface CrossLinkDialogProps {
+  /** Exploration the links belong to; always the current one */
+  explorationId: string;
+  /** Title shown above the links */
+  title: string;
+  /** Called with a node the user followed a link to */
+  onSelectNode: (nodeId: string) => void;
+  /** Called when the dialog should close */
+  onClose: () => void;
+}
+
+// Label of a node: the question it answers, or its title
+const getNodeLabel = (node: Node): string =>
+  node.type === 'explore' ? node.question || node.title : node.title;
+
+// Label of how two nodes relate, e.g. "example of"
+const getRelationLabel = (link: CrossLink): string =>
+  CROSS_LINK_RELATION_OPTIONS.find((option) => option.id === link.relation)?.label ?? link.relation;
+
+/**
+ * One link between two nodes, with the model's reason for it
+ */
+function CrossLinkItem({
+  link,
+  nodes,
+  onSelectNode,
+  children,
+}: {
+  link: CrossLink;
+  nodes: Record<string, Node>;
+  onSelectNode: (nodeId: string) => void;
+  children: React.ReactNode;
+}): React.ReactElement {
+  const nodeButton = (nodeId: string) => (
+    <button
+      type="button"
+      className="text-left font-medium hover:underline"
+      onClick={() => onSelectNode(nodeId)}
+      title="Show on the canvas"
+    >
+      {getNodeLabel(nodes[nodeId])}
+    </button>
+  );
+
+  return (
+    <li className="rounded-md border border-border p-3">
+      <p className="text-sm">
+        {nodeButton(link.source)}
+        <span className="mx-1.5 italic text-muted-foreground">{getRelationLabel(link)}</span>
+        {nodeButton(link.target)}
+      </p>
+      {link.reason && <p className="mt-1 text-xs text-muted-foreground">{link.reason}</p>}
+      <div className="mt-2 flex justify-end gap-2">{children}</div>
+    </li>
+  );
+}
+
+/**
+ * CrossLinkDialog Component
+ *
+ * Suggests links between related nodes in different branches of the current
+ * exploration, labeled with how they relate: one contradicts the other, is an
+ * example of it, or describes the same concept. Accepted links are kept with
+ * the exploration and drawn on the canvas; suggestions are looked for as soon
+ * as the dialog opens and are not kept.
+ *
+ * @param props - Component props
+ * @returns React component that renders the cross-link dialog
+ */
+export default function CrossLinkDialog({
+  explorationId,
+  title,
+  onSelectNode,
+  onClose,
+}: CrossLinkDialogProps): React.ReactElement {
+  const { findCrossLinks, cancel, isLoading } = useGemini();
+  const crossLinks = useExplorationStore((state) => state.explorations[explorationId]?.crossLinks);
+  const nodes = useExplorationStore((state) => state.nodes);
+  const addCrossLink = useExplorationStore((state) => state.addCrossLink);
+  const removeCrossLink = useExplorationStore((state) => state.removeCrossLink);
+  const [suggestions, setSuggestions] = useState<CrossLink[] | null>(null);
+  const [fallbackModel, setFallbackModel] = useState<string | undefined>();
+  const [error, setError] = useState<AiError | null>(null);
+  const requestedRef = useRef(false);
+
+  const handleFind = async () => {
+    setError(null);
+    try {
+      const result = await findCrossLinks();
+      setSuggestions(result.links);
+      setFallbackModel(result.fallbackModel);
+    } catch (err) {
+      if (!isCancelledError(err)) setError(toAiError(err));
+    }
+  };
+
+  // The handler changes every render; the effect below reads the latest one through a ref
+  const handleFindRef = useRef(handleFind);
+  handleFindRef.current = handleFind;
+
+  // Look for links straight away; suggestions are not kept between openings
+  useEffect(() => {
+    if (!requestedRef.current) {
+      requestedRef.current = true;
+      handleFindRef.current();
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Links whose nodes were deleted drop out of both lists
+  const hasNodes = (link: CrossLink) => !!nodes[link.source] && !!nodes[link.target];
+  const pending = (suggestions ?? []).filter(hasNodes);
+  const accepted = (crossLinks ?? []).filter(hasNodes);
+
+  const dismiss = (link: CrossLink) =>
+    setSuggestions((current) => current && current.filter((suggestion) => suggestion !== link));
+
+  const accept = (link: CrossLink) => {
+    addCrossLink(explorationId, link);
+    dismiss(link);
+  };
+
+  const acceptAll = () => {
+    pending.forEach((link) => addCrossLink(explorationId, link));
+    setSuggestions([]);
+  };
+
+  // Keep clicks, drags and scrolling inside the dialog from reaching the canvas
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onPointerDown={stopPropagation}
+      onWheel={stopPropagation}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Connections between nodes"
+        className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-lg border border-border bg-card text-card-foreground shadow-lg"
+        onClick={stopPropagation}
+      >
+        <div className="flex items-start justify-between gap-2 border-b border-border p-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold">Connections</h2>
+            <p className="truncate text-sm text-muted-foreground">{title}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="space-y-5 p-4">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                <span className="flex-1">Looking for related nodes across branches...</span>
+                <Button variant="ghost" size="sm" onClick={cancel}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+            {error && !isLoading && <NodeError error={error} onRetry={handleFind} />}
+
+            {suggestions && !isLoading && (
+              <section>
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Suggested</h3>
+                  {pending.length > 1 && (
+                    <Button variant="ghost" size="sm" className="gap-1.5" onClick={acceptAll}>
+                      <Check className="h-3.5 w-3.5" />
+                      Accept all
+                    </Button>
+                  )}
+                </div>
+                {pending.length > 0 ? (
+                  <ul className="space-y-2">
+                    {pending.map((link) => (
+                      <CrossLinkItem key={`${link.source}-${link.target}`} link={link} nodes={nodes} onSelectNode={onSelectNode}>
+                        <Button variant="ghost" size="sm" onClick={() => dismiss(link)}>
+                          Dismiss
+                        </Button>
+                        <Button variant="outline" size="sm" className="gap-1.5" onClick={() => accept(link)}>
+                          <Check className="h-3.5 w-3.5" />
+                          Accept
+                        </Button>
+                      </CrossLinkItem>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No new connections to suggest.</p>
+                )}
+                {fallbackModel && <FallbackModelNote model={fallbackModel} />}
+              </section>
+            )}
+
+            {accepted.length > 0 && (
+              <section>
+                <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">On the canvas</h3>
+                <ul className="space-y-2">
+                  {accepted.map((link) => (
+                    <CrossLinkItem key={`${link.source}-${link.target}`} link={link} nodes={nodes} onSelectNode={onSelectNode}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1.5"
+                        onClick={() => removeCrossLink(explorationId, link.source, link.target)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                        Remove
+                      </Button>
+                    </CrossLinkItem>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2 border-t border-border p-4">
+          <Button size="sm" className="gap-1.5" onClick={handleFind} disabled={isLoading}>
+            <RotateCw className="h-3.5 w-3.5" />
+            Find again
+          </Button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Send, Square } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import NodeError from '@/components/canvas/NodeError';
+import FallbackModelNote from '@/components/canvas/FallbackModelNote';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from '@/hooks/useGemini';
+import { AiError, isCancelledError, toAiError } from '@/lib/ai/errors';
+import { MAX_QUESTION_LENGTH } from '@/lib/ai/sanitize';
+import { ExplorationAnswer, Node } from '@/types';
+
+/**
+ * Props for the ExplorationQuestionBox component
+ */
+interface ExplorationQuestionBoxProps {
+  /** Called with a node the user followed a citation to */
+  onSelectNode: (nodeId: string) => void;
+}
+
+// Label of a cited node: the question it answers, or its title
+const getNodeLabel = (node: Node): string =>
+  node.type === 'explore' ? node.question || node.title : node.title;
+
+// Splits an answer into text and the references it cites, e.g. `[n3]`
+const CITATION_PATTERN = /(\[n\d+\])/g;
+
+/**
+ * ExplorationQuestionBox Component
+ *
+ * Asks a question of the whole current exploration. The answer is grounded
+ * in the exploration's nodes and cites them inline; each citation, and each
+ * entry in the list of sources below the answer, leads to its node on the canvas.
+ *
+ * @param props - Component props
+ * @returns React component that renders the question input and the latest answer
+ */
+export default function ExplorationQuestionBox({ onSelectNode }: ExplorationQuestionBoxProps): React.ReactElement {
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<ExplorationAnswer | null>(null);
+  const [error, setError] = useState<AiError | null>(null);
+  const nodes = useExplorationStore((state) => state.nodes);
+  const currentExplorationId = useExplorationStore((state) => state.currentExplorationId);
+  const { streamExplorationAnswer, cancel, isLoading } = useGemini();
+
+  // An answer belongs to the exploration it was asked in
+  useEffect(() => {
+    setAnswer(null);
+    setError(null);
+  }, [currentExplorationId]);
+
+  const runQuestion = async (questionText: string): Promise<void> => {
+    setError(null);
+    setAnswer({ question: questionText, text: '', citations: {} });
+    try {
+      await streamExplorationAnswer(questionText, setAnswer);
+      setQuestion('');
+    } catch (err) {
+      setAnswer(null);
+      if (!isCancelledError(err)) setError(toAiError(err));
+    }
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!question.trim() || isLoading) return;
+    await runQuestion(question.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey && question.trim()) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  // Sources are numbered in the order the answer first cites them
+  const sources = answer ? Object.entries(answer.citations).filter(([, nodeId]) => nodes[nodeId]) : [];
+  const sourceNumbers = new Map(sources.map(([ref], index) => [ref, index + 1]));
+
+  const renderAnswerText = (text: string): React.ReactNode =>
+    text.split(CITATION_PATTERN).map((part, index) => {
+      const ref = part.match(/^\[(n\d+)\]$/)?.[1];
+      const nodeId = ref ? answer?.citations[ref] : undefined;
+      if (!ref) return <React.Fragment key={index}>{part}</React.Fragment>;
+      // Citations of nodes that no longer exist, or were never sent, are dropped
+      if (!nodeId || !nodes[nodeId]) return null;
+
+      return (
+        <button
+          key={index}
+          type="button"
+          className="mx-0.5 align-super text-[10px] font-medium text-primary hover:underline"
+          title={getNodeLabel(nodes[nodeId])}
+          onClick={() => onSelectNode(nodeId)}
+        >
+          [{sourceNumbers.get(ref)}]
+        </button>
+      );
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask about this exploration..."
+          maxLength={MAX_QUESTION_LENGTH}
+          className="pr-10 text-sm"
+          onKeyDown={handleKeyDown}
+          disabled={isLoading}
+        />
+        <div className="absolute inset-y-0 right-0 flex items-center">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => (isLoading ? cancel() : handleSubmit())}
+            disabled={!question.trim() && !isLoading}
+            title={isLoading ? 'Stop generating' : undefined}
+          >
+            {isLoading ? <Square className="h-3 w-3" /> : <Send className="h-3 w-3" />}
+          </Button>
+        </div>
+      </div>
+
+      {error && <NodeError error={error} onRetry={() => runQuestion(question.trim())} />}
+
+      {answer && (
+        <div className="max-h-72 space-y-2 overflow-y-auto rounded-md border border-border p-3 text-sm">
+          <p className="font-medium">{answer.question}</p>
+          {answer.text ? (
+            <p className="whitespace-pre-line">{renderAnswerText(answer.text)}</p>
+          ) : (
+            <p className="text-muted-foreground">Reading the exploration...</p>
+          )}
+          {sources.length > 0 && (
+            <ol className="space-y-0.5 border-t border-border pt-2 text-xs text-muted-foreground">
+              {sources.map(([ref, nodeId], index) => (
+                <li key={ref}>
+                  <button
+                    type="button"
+                    className="text-left hover:text-foreground hover:underline"
+                    onClick={() => onSelectNode(nodeId)}
+                  >
+                    {index + 1}. {getNodeLabel(nodes[nodeId])}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          {answer.fallbackModel && <FallbackModelNote model={answer.fallbackModel} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, Copy, FileText, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import NodeError from '@/components/canvas/NodeError';
+import FallbackModelNote from '@/components/canvas/FallbackModelNote';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from '@/hooks/useGemini';
+import { AiError, isCancelledError, toAiError } from '@/lib/ai/errors';
+import { Connection, ExplorationReport, Node } from '@/types';
+
+/**
+ * Props for the ExplorationReportDialog component
+ */
+interface ExplorationReportDialogProps {
+  /** Exploration the report belongs to; always the current one */
+  explorationId: string;
+  /** Title shown above the report */
+  title: string;
+  /** Called with a node the user followed a link to */
+  onSelectNode: (nodeId: string) => void;
+  /** Called when the dialog should close */
+  onClose: () => void;
+}
+
+/**
+ * A node of the report, placed where it sits in the branch hierarchy
+ */
+interface ReportEntry {
+  node: Node;
+  /** The model's summary, when the report covers the node */
+  summary?: string;
+  /** Explored nodes below it, or nodes the report has a section for */
+  children: ReportEntry[];
+  /** Unexplored branches below it, listed as open threads */
+  openThreads: Node[];
+}
+
+// Heading label of a node: the question it answers, or its title
+const getNodeLabel = (node: Node): string =>
+  node.type === 'explore' ? node.question || node.title : node.title;
+
+// Lays the report's sections out along the current tree. Nodes deleted since
+// the report was generated drop out; nodes explored since then appear without a summary.
+const buildReportEntries = (
+  report: ExplorationReport,
+  nodes: Record<string, Node>,
+  connections: Connection[]
+): ReportEntry[] => {
+  const summaries = new Map(report.sections.map((section) => [section.nodeId, section.summary]));
+  const targets = new Set(connections.map((conn) => conn.target));
+  const visited = new Set<string>();
+
+  const visit = (nodeId: string): ReportEntry | null => {
+    const node = nodes[nodeId];
+    if (!node || visited.has(nodeId)) return null;
+    visited.add(nodeId);
+
+    const childIds = connections.filter((conn) => conn.source === nodeId).map((conn) => conn.target);
+    const children: ReportEntry[] = [];
+    const openThreads: Node[] = [];
+    childIds.forEach((childId) => {
+      const child = visit(childId);
+      if (child && (child.node.question || child.summary || child.children.length > 0)) children.push(child);
+      else if (child) openThreads.push(child.node);
+    });
+
+    return { node, summary: summaries.get(nodeId), children, openThreads };
+  };
+
+  return Object.keys(nodes)
+    .filter((nodeId) => !targets.has(nodeId))
+    .map(visit)
+    .filter((entry): entry is ReportEntry => !!entry && !!(entry.node.question || entry.children.length > 0));
+};
+
+// The report as Markdown, with headings following the branch hierarchy
+const toMarkdown = (title: string, summary: string, entries: ReportEntry[]): string => {
+  const lines = [`# ${title}`, '', '## Summary', '', summary, ''];
+
+  const addEntry = (entry: ReportEntry, depth: number) => {
+    lines.push(`${'#'.repeat(Math.min(depth + 2, 6))} ${getNodeLabel(entry.node)}`, '');
+    if (entry.summary) lines.push(entry.summary, '');
+    if (entry.openThreads.length > 0) {
+      lines.push('Open threads:', ...entry.openThreads.map((node) => `- ${node.title}`), '');
+    }
+    entry.children.forEach((child) => addEntry(child, depth + 1));
+  };
+
+  entries.forEach((entry) => addEntry(entry, 0));
+  return lines.join('\n').trim();
+};
+
+/**
+ * One section of the report and the sections below it
+ */
+function ReportEntrySection({
+  entry,
+  depth,
+  onSelectNode,
+}: {
+  entry: ReportEntry;
+  depth: number;
+  onSelectNode: (nodeId: string) => void;
+}): React.ReactElement {
+  return (
+    <section className={depth > 0 ? 'border-l border-border pl-4' : undefined}>
+      <button
+        type="button"
+        className="text-left font-semibold hover:underline"
+        onClick={() => onSelectNode(entry.node.id)}
+        title="Show on the canvas"
+      >
+        {getNodeLabel(entry.node)}
+      </button>
+      {entry.summary ? (
+        <p className="mt-1 text-sm whitespace-pre-line">{entry.summary}</p>
+      ) : (
+        <p className="mt-1 text-xs text-muted-foreground">Explored after this report was generated.</p>
+      )}
+      {entry.openThreads.length > 0 && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          Open threads:{' '}
+          {entry.openThreads.map((node, index) => (
+            <React.Fragment key={node.id}>
+              {index > 0 && ', '}
+              <button type="button" className="hover:text-foreground hover:underline" onClick={() => onSelectNode(node.id)}>
+                {node.title}
+              </button>
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+      {entry.children.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {entry.children.map((child) => (
+            <ReportEntrySection key={child.node.id} entry={child} depth={depth + 1} onSelectNode={onSelectNode} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * ExplorationReportDialog Component
+ *
+ * A digest of the current exploration: an executive summary and a section
+ * per explored node, nested the way the branches are. Every heading links to
+ * its node on the canvas. Generates the report when the exploration has none
+ * yet, and can regenerate it once the exploration has grown.
+ *
+ * @param props - Component props
+ * @returns React component that renders the report dialog
+ */
+export default function ExplorationReportDialog({
+  explorationId,
+  title,
+  onSelectNode,
+  onClose,
+}: ExplorationReportDialogProps): React.ReactElement {
+  const { generateReport, cancel, isLoading } = useGemini();
+  const report = useExplorationStore((state) => state.explorations[explorationId]?.report);
+  const nodes = useExplorationStore((state) => state.nodes);
+  const connections = useExplorationStore((state) => state.connections);
+  const setExplorationReport = useExplorationStore((state) => state.setExplorationReport);
+  const [error, setError] = useState<AiError | null>(null);
+  const [copied, setCopied] = useState(false);
+  const requestedRef = useRef(false);
+
+  const handleGenerate = async () => {
+    setError(null);
+    try {
+      setExplorationReport(explorationId, await generateReport());
+    } catch (err) {
+      if (!isCancelledError(err)) setError(toAiError(err));
+    }
+  };
+
+  // The handler changes every render; the effect below reads the latest one through a ref
+  const handleGenerateRef = useRef(handleGenerate);
+  handleGenerateRef.current = handleGenerate;
+
+  // Generate a report straight away when there is none to show
+  useEffect(() => {
+    if (!report && !requestedRef.current) {
+      requestedRef.current = true;
+      handleGenerateRef.current();
+    }
+  }, [report]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const entries = report ? buildReportEntries(report, nodes, connections) : [];
+
+  const handleCopy = async () => {
+    if (!report) return;
+    try {
+      await navigator.clipboard.writeText(toMarkdown(title, report.summary, entries));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying report:', err);
+    }
+  };
+
+  // Keep clicks, drags and scrolling inside the dialog from reaching the canvas
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onPointerDown={stopPropagation}
+      onWheel={stopPropagation}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Exploration report"
+        className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-lg border border-border bg-card text-card-foreground shadow-lg"
+        onClick={stopPropagation}
+      >
+        <div className="flex items-start justify-between gap-2 border-b border-border p-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold">Report</h2>
+            <p className="truncate text-sm text-muted-foreground">{title}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="space-y-5 p-4">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                <span className="flex-1">Summarising the exploration...</span>
+                <Button variant="ghost" size="sm" onClick={cancel}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+            {error && !isLoading && <NodeError error={error} onRetry={handleGenerate} />}
+
+            {report && (
+              <>
+                <section>
+                  <h3 className="mb-1 text-sm font-semibold uppercase tracking-wide text-muted-foreground">Summary</h3>
+                  <p className="text-sm whitespace-pre-line">{report.summary}</p>
+                </section>
+                <div className="space-y-4">
+                  {entries.map((entry) => (
+                    <ReportEntrySection
+                      key={entry.node.id}
+                      entry={entry}
+                      depth={0}
+                      onSelectNode={onSelectNode}
+                    />
+                  ))}
+                </div>
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  <p>
+                    Generated {new Date(report.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                    {' '}from {report.nodeCount} node{report.nodeCount === 1 ? '' : 's'}
+                  </p>
+                  {report.fallbackModel && <FallbackModelNote model={report.fallbackModel} />}
+                </div>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2 border-t border-border p-4">
+          <Button variant="ghost" size="sm" className="gap-1.5" onClick={handleCopy} disabled={!report}>
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+            {copied ? 'Copied' : 'Copy as Markdown'}
+          </Button>
+          <Button size="sm" className="gap-1.5" onClick={handleGenerate} disabled={isLoading}>
+            {report ? <RotateCw className="h-3.5 w-3.5" /> : <FileText className="h-3.5 w-3.5" />}
+            {report ? 'Regenerate' : 'Generate'}
+          </Button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
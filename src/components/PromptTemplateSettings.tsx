@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CustomPromptTemplateInput, usePromptTemplateStore } from '@/store/templateStore';
+import { useExplorationStore } from '@/store/explorationStore';
+import {
+  CUSTOM_TEMPLATE_VARIABLES,
+  MAX_CUSTOM_TEMPLATE_INSTRUCTIONS_LENGTH,
+  MAX_CUSTOM_TEMPLATE_NAME_LENGTH,
+  PROMPT_TEMPLATES,
+  getTemplateVersion,
+} from '@/lib/ai/templates';
+
+const EMPTY_INPUT: CustomPromptTemplateInput = { name: '', description: '', instructions: '' };
+
+/**
+ * Form for creating or editing a custom template
+ */
+function TemplateForm({
+  initial,
+  onSave,
+  onCancel,
+}: {
+  initial: CustomPromptTemplateInput;
+  onSave: (input: CustomPromptTemplateInput) => void;
+  onCancel: () => void;
+}): React.ReactElement {
+  const [input, setInput] = useState<CustomPromptTemplateInput>(initial);
+
+  return (
+    <form
+      className="space-y-3 rounded-md border border-border p-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (input.instructions.trim()) onSave(input);
+      }}
+    >
+      <Input
+        value={input.name}
+        onChange={(e) => setInput({ ...input, name: e.target.value })}
+        placeholder="Name, e.g. Explain like I'm 10"
+        maxLength={MAX_CUSTOM_TEMPLATE_NAME_LENGTH}
+        autoFocus
+      />
+      <Input
+        value={input.description ?? ''}
+        onChange={(e) => setInput({ ...input, description: e.target.value })}
+        placeholder="Description (optional)"
+      />
+      <textarea
+        value={input.instructions}
+        onChange={(e) => setInput({ ...input, instructions: e.target.value })}
+        placeholder="Instructions, e.g. Explain {{question}} as you would to a curious 10-year-old, using everyday comparisons."
+        maxLength={MAX_CUSTOM_TEMPLATE_INSTRUCTIONS_LENGTH}
+        rows={5}
+        className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      />
+      <p className="text-xs text-muted-foreground">
+        Available variables: {CUSTOM_TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}.
+        {' '}{input.instructions.length}/{MAX_CUSTOM_TEMPLATE_INSTRUCTIONS_LENGTH} characters.
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!input.instructions.trim()}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * PromptTemplateSettings Component
+ *
+ * Lists the built-in prompt templates with their versions, and lets the user
+ * create, edit and delete custom templates. A custom template's instructions
+ * are added to the built-in prompts of the explorations that choose it in
+ * the side panel.
+ *
+ * @returns React component that renders the template settings
+ */
+export default function PromptTemplateSettings(): React.ReactElement {
+  const { customTemplates, addCustomTemplate, updateCustomTemplate, deleteCustomTemplate } = usePromptTemplateStore();
+  const { explorations, setExplorationPromptTemplate } = useExplorationStore();
+  // Id of the template being edited, or 'new' while one is being created
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const handleDelete = (templateId: string) => {
+    // Explorations that used the template go back to the built-in prompts
+    Object.values(explorations)
+      .filter((exploration) => exploration.promptTemplateId === templateId)
+      .forEach((exploration) => setExplorationPromptTemplate(exploration.id, undefined));
+    deleteCustomTemplate(templateId);
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-card-foreground">Custom templates</h2>
+            <p className="text-sm text-muted-foreground">
+              Instructions added to every prompt of the explorations that use them. Choose one per exploration in the side panel.
+            </p>
+          </div>
+          {editingId !== 'new' && (
+            <Button size="sm" className="gap-1 shrink-0" onClick={() => setEditingId('new')}>
+              <Plus className="h-4 w-4" />
+              New
+            </Button>
+          )}
+        </div>
+
+        {editingId === 'new' && (
+          <TemplateForm
+            initial={EMPTY_INPUT}
+            onSave={(input) => {
+              addCustomTemplate(input);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+
+        {customTemplates.length === 0 && editingId !== 'new' && (
+          <p className="text-sm text-muted-foreground">No custom templates yet.</p>
+        )}
+
+        <ul className="space-y-2">
+          {customTemplates.map((template) => (
+            <li key={template.id}>
+              {editingId === template.id ? (
+                <TemplateForm
+                  initial={template}
+                  onSave={(input) => {
+                    updateCustomTemplate(template.id, input);
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-start gap-2 rounded-md bg-secondary px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-secondary-foreground">
+                      {template.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">v{template.version}</span>
+                    </p>
+                    {template.description && (
+                      <p className="text-xs text-muted-foreground">{template.description}</p>
+                    )}
+                    <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">{template.instructions}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => setEditingId(template.id)}
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(template.id)}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-lg font-semibold text-card-foreground">Built-in templates</h2>
+          <p className="text-sm text-muted-foreground">
+            The prompts every answer starts from. Each answer records the template version it was generated with.
+          </p>
+        </div>
+        <ul className="space-y-2">
+          {Object.values(PROMPT_TEMPLATES).map((template) => (
+            <li key={template.id} className="rounded-md bg-secondary px-3 py-2">
+              <p className="text-sm font-medium text-secondary-foreground">
+                {template.name}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">{getTemplateVersion(template)}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">{template.description}</p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Variables: {template.variables.join(', ')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
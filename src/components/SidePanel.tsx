@@ -4,12 +4,22 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useExplorationStore } from '@/store/explorationStore';
-import { ChevronRight, X, Trash2, Plus, LogOut, Moon, Sun, Pencil, Settings, Check } from 'lucide-react';
+import { usePromptTemplateStore } from '@/store/templateStore';
+import { ChevronRight, X, Trash2, Plus, LogOut, Moon, Sun, Pencil, Settings, Check, FileText, Sparkles, Waypoints } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Input } from '@/components/ui/input';
+import ExplorationReportDialog from '@/components/ExplorationReportDialog';
+import CrossLinkDialog from '@/components/CrossLinkDialog';
+import ExplorationQuestionBox from '@/components/ExplorationQuestionBox';
+import { useGemini } from '@/hooks/useGemini';
+import { isCancelledError } from '@/lib/ai/errors';
+import { MIN_CROSS_LINK_NODES } from '@/lib/ai/crossLinks';
+import { AI_PROVIDER_OPTIONS } from '@/config/aiConfig';
+import { AiProviderId } from '@/types';
+import { estimateTotalsCostUsd, formatCostUsd, formatTokenCount, sumUsageTotals } from '@/lib/ai/usage';
 
 interface ChatMessage {
   id: string;
@@ -24,6 +34,10 @@ export default function SidePanel() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isCrossLinksOpen, setIsCrossLinksOpen] = useState(false);
+  const [suggestingTitleId, setSuggestingTitleId] = useState<string | null>(null);
+  const [titleErrorId, setTitleErrorId] = useState<string | null>(null);
   const { signOut } = useAuth();
   const router = useRouter();
   const { theme, toggleTheme, isLoaded } = useTheme();
@@ -38,8 +52,12 @@ export default function SidePanel() {
     deleteExploration,
     deleteNode,
     switchExploration,
-    updateExplorationTitle
+    updateExplorationTitle,
+    setExplorationProvider,
+    setExplorationPromptTemplate
   } = useExplorationStore();
+  const { customTemplates } = usePromptTemplateStore();
+  const { generateTitle } = useGemini();
   
   // Set mounted state after component mounts
   useEffect(() => {
@@ -124,6 +142,18 @@ export default function SidePanel() {
     return '';
   };
   
+  // Show a node linked from the report on the canvas
+  const handleReportNodeSelect = (nodeId: string) => {
+    setIsReportOpen(false);
+    handleNodeClick(nodeId);
+  };
+  
+  // Show a node named in a cross-link on the canvas
+  const handleCrossLinkNodeSelect = (nodeId: string) => {
+    setIsCrossLinksOpen(false);
+    handleNodeClick(nodeId);
+  };
+  
   // Handle logout
   const handleLogout = async () => {
     try {
@@ -148,6 +178,22 @@ export default function SidePanel() {
     setEditTitle(currentTitle);
   };
 
+  // Generate a short title and put it in the title editor, so the user can accept or change it
+  const handleSuggestTitle = async (explorationId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSuggestingTitleId(explorationId);
+    setTitleErrorId(null);
+    try {
+      const { title } = await generateTitle(explorationId);
+      setEditingId(explorationId);
+      setEditTitle(title);
+    } catch (error) {
+      if (!isCancelledError(error)) setTitleErrorId(explorationId);
+    } finally {
+      setSuggestingTitleId((current) => (current === explorationId ? null : current));
+    }
+  };
+
   const handleSaveTitle = (explorationId: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
     if (editTitle.trim()) {
@@ -223,6 +269,102 @@ export default function SidePanel() {
             </Button>
           </div>
 
+          {/* AI provider for the current exploration */}
+          {currentExplorationId && explorations[currentExplorationId] && (
+            <div className="px-3 py-2 flex items-center gap-2">
+              <label htmlFor="ai-provider" className="text-xs text-muted-foreground shrink-0">
+                AI provider
+              </label>
+              <select
+                id="ai-provider"
+                value={explorations[currentExplorationId].provider ?? ''}
+                onChange={(e) => setExplorationProvider(
+                  currentExplorationId,
+                  (e.target.value || undefined) as AiProviderId | undefined
+                )}
+                className="h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              >
+                <option value="">Default</option>
+                {AI_PROVIDER_OPTIONS.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Custom prompt template for the current exploration */}
+          {currentExplorationId && explorations[currentExplorationId] && customTemplates.length > 0 && (
+            <div className="px-3 pb-2 flex items-center gap-2">
+              <label htmlFor="prompt-template" className="text-xs text-muted-foreground shrink-0">
+                Prompt style
+              </label>
+              <select
+                id="prompt-template"
+                value={explorations[currentExplorationId].promptTemplateId ?? ''}
+                onChange={(e) => setExplorationPromptTemplate(currentExplorationId, e.target.value || undefined)}
+                className="h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              >
+                <option value="">Default</option>
+                {customTemplates.map(({ id, name }) => (
+                  <option key={id} value={id}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Tokens used so far in the current exploration */}
+          {currentExplorationId && explorations[currentExplorationId]?.usage && (() => {
+            const usage = explorations[currentExplorationId].usage;
+            const totals = sumUsageTotals(usage);
+            const { cost, hasUnpricedModels } = estimateTotalsCostUsd(usage);
+            return (
+              <p className="px-3 pb-1 text-xs text-muted-foreground">
+                {formatTokenCount(totals.promptTokens + totals.outputTokens)} tokens in {totals.calls} calls
+                {' · ~'}{formatCostUsd(cost)}{hasUnpricedModels && '+'}
+              </p>
+            );
+          })()}
+
+          {/* Report on the current exploration, once something has been explored */}
+          {currentExplorationId && explorations[currentExplorationId] &&
+            Object.values(nodes).some((node) => node.question) && (
+            <div className="px-3 py-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-1.5"
+                onClick={() => setIsReportOpen(true)}
+              >
+                <FileText className="h-4 w-4" />
+                {explorations[currentExplorationId].report ? 'View report' : 'Generate report'}
+              </Button>
+            </div>
+          )}
+
+          {/* Links between related nodes in different branches, once there are branches to compare */}
+          {currentExplorationId && explorations[currentExplorationId] &&
+            Object.keys(nodes).length >= MIN_CROSS_LINK_NODES && (
+            <div className="px-3 py-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-1.5"
+                onClick={() => setIsCrossLinksOpen(true)}
+              >
+                <Waypoints className="h-4 w-4" />
+                Find connections
+              </Button>
+            </div>
+          )}
+
+          {/* Questions answered from the current exploration's nodes */}
+          {currentExplorationId && explorations[currentExplorationId] &&
+            Object.values(nodes).some((node) => node.question) && (
+            <div className="px-3 py-1">
+              <ExplorationQuestionBox onSelectNode={handleNodeClick} />
+            </div>
+          )}
+
           {/* Divider */}
           <div className="px-4 py-2">
             <div className="h-px bg-border/60" />
@@ -311,6 +453,23 @@ export default function SidePanel() {
                             </span>
                           </div>
                           <div className="flex items-center gap-1 flex-shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className={cn(
+                                "h-7 w-7 transition-opacity shrink-0",
+                                suggestingTitleId === explorationId ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                              )}
+                              onClick={(e) => handleSuggestTitle(explorationId, e)}
+                              disabled={suggestingTitleId === explorationId}
+                              title="Suggest a title"
+                            >
+                              {suggestingTitleId === explorationId ? (
+                                <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                              ) : (
+                                <Sparkles className="h-4 w-4" />
+                              )}
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -331,6 +490,9 @@ export default function SidePanel() {
                         </>
                       )}
                     </div>
+                    {titleErrorId === explorationId && (
+                      <p className="px-2 pb-1.5 text-xs text-destructive">Could not suggest a title. Try again later.</p>
+                    )}
                   </div>
                 ))
               ) : (
@@ -364,6 +526,15 @@ export default function SidePanel() {
                 </>
               )}
             </Button>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="w-full gap-2"
+              onClick={() => router.push('/settings')}
+            >
+              <Settings className="h-3.5 w-3.5" />
+              <span>Settings</span>
+            </Button>
           </div>
           
           <Button 
@@ -387,6 +558,24 @@ export default function SidePanel() {
           </Button>
         </div>
       </div>
+
+      {isReportOpen && currentExplorationId && explorations[currentExplorationId] && (
+        <ExplorationReportDialog
+          explorationId={currentExplorationId}
+          title={getExplorationTitle(explorations[currentExplorationId]) || 'Untitled exploration'}
+          onSelectNode={handleReportNodeSelect}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
+      {isCrossLinksOpen && currentExplorationId && explorations[currentExplorationId] && (
+        <CrossLinkDialog
+          explorationId={currentExplorationId}
+          title={getExplorationTitle(explorations[currentExplorationId]) || 'Untitled exploration'}
+          onSelectNode={handleCrossLinkNodeSelect}
+          onClose={() => setIsCrossLinksOpen(false)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,166 @@
+'use client';
+
+import React from 'react';
+import { useMonthlyUsage } from '@/hooks/useMonthlyUsage';
+import { useExplorationStore } from '@/store/explorationStore';
+import {
+  EMPTY_TOKEN_USAGE,
+  addTokenUsage,
+  estimateTotalsCostUsd,
+  formatCostUsd,
+  formatTokenCount,
+  sumUsageTotals,
+} from '@/lib/ai/usage';
+import { UsageTotals } from '@/types';
+
+/**
+ * Props for the UsageSummary component
+ */
+interface UsageSummaryProps {
+  /** The signed-in user */
+  userId: string | undefined;
+}
+
+// Explorations listed in the breakdown, heaviest first
+const MAX_LISTED_EXPLORATIONS = 8;
+
+const formatMonth = (month: string, style: 'short' | 'long' = 'short'): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: style,
+    ...(style === 'long' ? { year: 'numeric' } : {}),
+    timeZone: 'UTC',
+  });
+
+// Estimated cost with a marker when some models have no configured price
+const describeCost = (totals: Record<string, UsageTotals> | undefined): string => {
+  const { cost, hasUnpricedModels } = estimateTotalsCostUsd(totals);
+  return `${formatCostUsd(cost)}${hasUnpricedModels ? '+' : ''}`;
+};
+
+/**
+ * A labelled figure in the summary grid
+ */
+function Stat({ label, value }: { label: string; value: string }): React.ReactElement {
+  return (
+    <div className="rounded-md bg-secondary px-3 py-2">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold text-secondary-foreground">{value}</p>
+    </div>
+  );
+}
+
+/**
+ * UsageSummary Component
+ *
+ * The user's AI usage: this month's and the last year's tokens with an
+ * estimated cost, a monthly chart, and the explorations that used the most.
+ * Monthly figures come from the server's records; the per-exploration
+ * breakdown covers the explorations stored in this browser.
+ *
+ * @param props - Component props
+ * @returns React component that renders the usage summary
+ */
+export default function UsageSummary({ userId }: UsageSummaryProps): React.ReactElement {
+  const { usage, isLoading, error } = useMonthlyUsage(userId);
+  const { explorations } = useExplorationStore();
+
+  const currentMonth = usage[usage.length - 1];
+  const yearModels = usage.reduce<Record<string, UsageTotals>>((totals, month) => {
+    for (const [model, entry] of Object.entries(month.models)) {
+      const current = totals[model] ?? { calls: 0, ...EMPTY_TOKEN_USAGE };
+      totals[model] = { calls: current.calls + entry.calls, ...addTokenUsage(current, entry) };
+    }
+    return totals;
+  }, {});
+  const yearTotals = sumUsageTotals(yearModels);
+  const maxMonthTokens = Math.max(1, ...usage.map((month) => month.promptTokens + month.outputTokens));
+
+  const explorationUsage = Object.values(explorations)
+    .map((exploration) => ({ exploration, totals: sumUsageTotals(exploration.usage) }))
+    .filter(({ totals }) => totals.calls > 0)
+    .sort((a, b) => (b.totals.promptTokens + b.totals.outputTokens) - (a.totals.promptTokens + a.totals.outputTokens))
+    .slice(0, MAX_LISTED_EXPLORATIONS);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-card-foreground">AI Usage</h2>
+        <p className="text-xs text-muted-foreground">Costs are estimates based on configured model prices</p>
+      </div>
+
+      {error && (
+        <p className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          Usage could not be loaded.
+        </p>
+      )}
+
+      {isLoading && usage.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground animate-pulse">Loading usage...</p>
+      ) : currentMonth && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Stat
+              label={`Tokens in ${formatMonth(currentMonth.month, 'long')}`}
+              value={formatTokenCount(currentMonth.promptTokens + currentMonth.outputTokens)}
+            />
+            <Stat label="Estimated cost this month" value={describeCost(currentMonth.models)} />
+            <Stat label="Tokens in the last 12 months" value={formatTokenCount(yearTotals.promptTokens + yearTotals.outputTokens)} />
+            <Stat label="Estimated cost, 12 months" value={describeCost(yearModels)} />
+          </div>
+
+          {/* Monthly chart: prompt and output tokens stacked per month */}
+          <div className="space-y-2">
+            <div className="flex h-32 items-end gap-1">
+              {usage.map((month) => {
+                const total = month.promptTokens + month.outputTokens;
+                return (
+                  <div
+                    key={month.month}
+                    className="flex flex-1 flex-col justify-end h-full"
+                    title={`${formatMonth(month.month, 'long')}: ${formatTokenCount(total)} tokens in ${month.calls} calls, about ${describeCost(month.models)}`}
+                  >
+                    <div
+                      className="w-full rounded-t-sm bg-primary"
+                      style={{ height: `${(month.outputTokens / maxMonthTokens) * 100}%` }}
+                    />
+                    <div
+                      className="w-full bg-primary/40"
+                      style={{ height: `${(month.promptTokens / maxMonthTokens) * 100}%` }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-1">
+              {usage.map((month) => (
+                <span key={month.month} className="flex-1 text-center text-[10px] text-muted-foreground">
+                  {formatMonth(month.month)}
+                </span>
+              ))}
+            </div>
+            <div className="flex justify-center gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-primary/40" />Prompt</span>
+              <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-primary" />Output</span>
+            </div>
+          </div>
+        </>
+      )}
+
+      {explorationUsage.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-card-foreground">By exploration</h3>
+          <ul className="space-y-1">
+            {explorationUsage.map(({ exploration, totals }) => (
+              <li key={exploration.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-secondary-foreground">{exploration.title}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {formatTokenCount(totals.promptTokens + totals.outputTokens)} tokens · {describeCost(exploration.usage)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { AiQuotaStatus, AutoBurrowSettings, Node } from '@/types';
+import { useExplorationStore } from '@/store/explorationStore';
+import { AutoBurrow, estimateAutoBurrowCalls } from '@/hooks/useAutoBurrow';
+import { useGemini } from '@/hooks/useGemini';
+import { isCancelledError } from '@/lib/ai/errors';
+import {
+  DEFAULT_AUTO_BURROW_SETTINGS,
+  DEFAULT_EXPLORE_OPTIONS,
+  MAX_AUTO_BURROW_BREADTH,
+  MAX_AUTO_BURROW_CONCURRENCY,
+  MAX_AUTO_BURROW_DEPTH,
+} from '@/config/aiConfig';
+
+/**
+ * Props for the AutoBurrowDialog component
+ */
+interface AutoBurrowDialogProps {
+  /** Node the auto-burrow starts from */
+  node: Node;
+  /** Controls of the node's auto-burrow run */
+  autoBurrow: AutoBurrow;
+  /** Called when the dialog should close */
+  onClose: () => void;
+}
+
+/**
+ * Labelled slider for one auto-burrow setting
+ */
+function SettingSlider({
+  label,
+  description,
+  value,
+  max,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+}): React.ReactElement {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm font-medium">
+        <span>{label}</span>
+        <span className="text-muted-foreground">{value}</span>
+      </div>
+      <Slider min={1} max={max} step={1} value={[value]} onValueChange={([next]) => onChange(next)} />
+      <p className="text-xs text-muted-foreground">{description}</p>
+    </div>
+  );
+}
+
+/**
+ * AutoBurrowDialog Component
+ *
+ * Lets the user choose how deep and wide an auto-burrow goes and how many
+ * answers it generates at once, and shows how many AI calls it will make at
+ * most before it starts. A run is capped to what is left of the user's daily
+ * quota. Rendered into the document body so the canvas zoom
+ * does not scale it.
+ *
+ * @param props - Component props
+ * @returns React component that renders the auto-burrow dialog
+ */
+export default function AutoBurrowDialog({ node, autoBurrow, onClose }: AutoBurrowDialogProps): React.ReactElement {
+  const [settings, setSettings] = useState<AutoBurrowSettings>(DEFAULT_AUTO_BURROW_SETTINGS);
+  const branchCount = useExplorationStore((state) =>
+    (state.currentExplorationId && state.explorations[state.currentExplorationId]?.exploreOptions?.branchCount)
+      || DEFAULT_EXPLORE_OPTIONS.branchCount
+  );
+  // Re-estimate whenever the tree changes, e.g. while another run adds nodes
+  const nodes = useExplorationStore((state) => state.nodes);
+  const connections = useExplorationStore((state) => state.connections);
+  const estimate = useMemo(
+    () => estimateAutoBurrowCalls(node.id, settings, branchCount, nodes, connections),
+    [node.id, settings, branchCount, nodes, connections]
+  );
+
+  // What is left of today's quota; without it the estimate alone is shown
+  const { getQuotaStatus } = useGemini();
+  const [quota, setQuota] = useState<AiQuotaStatus | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    getQuotaStatus(controller.signal)
+      .then(setQuota)
+      .catch((error) => {
+        if (!isCancelledError(error)) console.warn('Could not load the AI quota:', error);
+      });
+    return () => controller.abort();
+  }, [getQuotaStatus]);
+
+  const budget = quota ? Math.min(estimate, quota.dailyRemaining) : estimate;
+  const quotaResetAt = quota ? new Date(quota.dailyResetAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Keep clicks, drags and scrolling inside the dialog from reaching the canvas
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onPointerDown={stopPropagation}
+      onWheel={stopPropagation}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Auto-burrow"
+        className="w-full max-w-md rounded-lg border border-border bg-card text-card-foreground shadow-lg"
+        onClick={stopPropagation}
+      >
+        <div className="flex items-start justify-between gap-2 border-b border-border p-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold">Auto-burrow</h2>
+            <p className="truncate text-sm text-muted-foreground">{node.question || node.title}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-5 p-4">
+          <SettingSlider
+            label="Depth"
+            description="Levels of branches to add below this node."
+            value={settings.depth}
+            max={MAX_AUTO_BURROW_DEPTH}
+            onChange={(depth) => setSettings({ ...settings, depth })}
+          />
+          <SettingSlider
+            label="Breadth"
+            description="Branches to explore below each node on every level."
+            value={settings.breadth}
+            max={MAX_AUTO_BURROW_BREADTH}
+            onChange={(breadth) => setSettings({ ...settings, breadth })}
+          />
+          <SettingSlider
+            label="At once"
+            description="Answers generated at the same time."
+            value={settings.concurrency}
+            max={MAX_AUTO_BURROW_CONCURRENCY}
+            onChange={(concurrency) => setSettings({ ...settings, concurrency })}
+          />
+
+          <div className="rounded-md bg-muted px-3 py-2 text-sm">
+            {estimate > 0 && quota?.dailyRemaining === 0 ? (
+              <>You have used today&apos;s quota of {quota.dailyQuota} AI calls. It resets at {quotaResetAt}.</>
+            ) : estimate > budget ? (
+              <>
+                This needs up to {estimate} AI calls, but only{' '}
+                <span className="font-semibold">{budget}</span> of your daily quota of {quota?.dailyQuota} are left, so
+                the run stops after {budget}. The quota resets at {quotaResetAt}.
+              </>
+            ) : budget > 0 ? (
+              <>
+                This will make up to <span className="font-semibold">{budget}</span> AI call{budget === 1 ? '' : 's'},
+                each counted towards your daily quota. Branches that are already explored are reused.
+              </>
+            ) : (
+              'Everything within this depth and breadth is already explored.'
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-border p-4">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={budget === 0 || autoBurrow.isRunning}
+            onClick={() => {
+              autoBurrow.start(settings, budget);
+              onClose();
+            }}
+          >
+            Start
+          </Button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { Pause, Pickaxe, Play, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AutoBurrow } from '@/hooks/useAutoBurrow';
+
+/**
+ * AutoBurrowStatus Component
+ *
+ * Progress of a node's auto-burrow run, with buttons to pause, resume and
+ * cancel it. A run paused by the AI quota says when it can go on. Once the
+ * run ends it shows a summary until dismissed.
+ *
+ * @param props - Component props
+ * @returns React component that renders the progress, or nothing when no run was started
+ */
+export default function AutoBurrowStatus({ autoBurrow }: { autoBurrow: AutoBurrow }): React.ReactElement | null {
+  const { progress } = autoBurrow;
+  if (progress.status === 'idle') return null;
+
+  const percent = progress.budget > 0 ? Math.round((progress.completed / progress.budget) * 100) : 0;
+  const resumeAt = progress.resumeAt ? new Date(progress.resumeAt) : null;
+  const quotaResetAt = progress.quotaError?.resetAt ? new Date(progress.quotaError.resetAt) : null;
+  const summary = {
+    running: `Auto-burrowing: ${progress.completed} of up to ${progress.budget} calls`,
+    paused: resumeAt
+      ? `Rate limit reached after ${progress.completed} of up to ${progress.budget} calls; resuming at ${resumeAt.toLocaleTimeString()}`
+      : `Paused after ${progress.completed} of up to ${progress.budget} calls`,
+    done: `Auto-burrow finished after ${progress.completed} call${progress.completed === 1 ? '' : 's'}`,
+    cancelled: `Auto-burrow cancelled after ${progress.completed} call${progress.completed === 1 ? '' : 's'}`,
+  }[progress.status];
+
+  return (
+    <div className="space-y-1.5 rounded-md border border-border px-3 py-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-xs">
+        <Pickaxe className="h-3 w-3 shrink-0 text-muted-foreground" />
+        <span className="flex-1">{summary}</span>
+        {progress.status === 'running' && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={autoBurrow.pause} title="Pause">
+            <Pause className="h-3 w-3" />
+          </Button>
+        )}
+        {progress.status === 'paused' && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={autoBurrow.resume} title="Resume">
+            <Play className="h-3 w-3" />
+          </Button>
+        )}
+        {autoBurrow.isRunning ? (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={autoBurrow.cancel} title="Cancel">
+            <Square className="h-3 w-3" />
+          </Button>
+        ) : (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={autoBurrow.dismiss} title="Dismiss">
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      {autoBurrow.isRunning && (
+        <div className="h-1 overflow-hidden rounded-full bg-muted">
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      {progress.status === 'paused' && progress.quotaError && !resumeAt && (
+        <p className="text-xs text-destructive">
+          {progress.quotaError.userMessage}
+          {quotaResetAt && !isNaN(quotaResetAt.getTime())
+            ? ` Resume after ${quotaResetAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}.`
+            : ''}
+        </p>
+      )}
+      {progress.failed > 0 && (
+        <p className="text-xs text-destructive">
+          {progress.failed} branch{progress.failed === 1 ? '' : 'es'} could not be explored
+          {progress.error ? `: ${progress.error.message}` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
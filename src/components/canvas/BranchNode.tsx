@@ -3,15 +3,29 @@
 import { useState, useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useExplorationStore } from '@/store/explorationStore';
 import { useGemini } from '@/hooks/useGemini';
-import { Node } from '@/types';
-import { ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import { useNodeRegeneration } from '@/hooks/useNodeRegeneration';
+import { useAutoBurrow } from '@/hooks/useAutoBurrow';
+import { ExploreMode, Node } from '@/types';
+import { ChevronDown, ChevronUp, Combine, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import DragHandle from './DragHandle';
 import AnchorDot from './AnchorDot';
+import NodeError from './NodeError';
+import FollowUpInput from './FollowUpInput';
+import NodeThread from './NodeThread';
+import NodeVersionBar from './NodeVersionBar';
+import FallbackModelNote from './FallbackModelNote';
+import NodeUsageNote from './NodeUsageNote';
+import CancelButton from './CancelButton';
+import NodeContextMenu from './NodeContextMenu';
+import AutoBurrowStatus from './AutoBurrowStatus';
 import { useZoom } from '@/contexts';
 import { getNodeSizeClasses, getNodeMaxHeight } from '@/config/nodeConfig';
+import { AiError, toAiError } from '@/lib/ai/errors';
+import { EXPLORE_MODE_OPTIONS } from '@/config/aiConfig';
 
 /**
  * Props for the BranchNode component
@@ -21,6 +35,8 @@ interface BranchNodeProps {
   node: Node;
   /** Whether this node is currently active */
   isActive: boolean;
+  /** Whether this node is picked to be combined with others */
+  isSelected: boolean;
 }
 
 /**
@@ -32,18 +48,34 @@ interface BranchNodeProps {
  * @param props - Component props
  * @returns React component that renders a branch node
  */
-export default function BranchNode({ node, isActive }: BranchNodeProps): React.ReactElement {
+export default function BranchNode({ node, isActive, isSelected }: BranchNodeProps): React.ReactElement {
   const { 
-    addBranchNodes, 
+    appendBranchNode, 
+    removeNodes,
     updateNodeQuestion, 
     updateNodeContent, 
+    setNodeGenerationInfo,
     setActiveNode,
+    toggleNodeSelection,
+    getParentNodes,
     repositionOverlappingNodes,
     hasChildNodes,
-    draggingNodeId
+    draggingNodeId,
+    currentExplorationId
   } = useExplorationStore();
-  const { generateIdeas, isLoading } = useGemini();
-  const [expanded, setExpanded] = useState<boolean>(false);
+  const { streamIdeas, cancel, isLoading } = useGemini();
+  const regeneration = useNodeRegeneration(node);
+  const autoBurrow = useAutoBurrow(node);
+  // Explored nodes regenerate their answer, synthesized ones combine their parents
+  // again and plain branches are swapped for a new suggestion
+  const regenerate = node.question
+    ? regeneration.regenerateAnswer
+    : node.synthesized ? regeneration.regenerateSynthesis : regeneration.regenerateBranch;
+  // Start expanded when created active, e.g. the answer node of a follow-up question
+  const [expanded, setExpanded] = useState<boolean>(isActive);
+  const [error, setError] = useState<AiError | null>(null);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const [modeMenuOpen, setModeMenuOpen] = useState<boolean>(false);
   
   const hasChildren = useMemo(() => hasChildNodes(node.id), [node.id, hasChildNodes]);
   const { resetView } = useZoom();
@@ -58,22 +90,69 @@ export default function BranchNode({ node, isActive }: BranchNodeProps): React.R
     }
     
     e.stopPropagation();
+    // Shift-click picks nodes to combine without moving the view
+    if (e.shiftKey) {
+      toggleNodeSelection(node.id);
+      return;
+    }
     setActiveNode(node.id);
     resetView(node.id);
   };
   
-  const handleExplore = async (e: React.MouseEvent) => {
-    e.stopPropagation();
-    
-    // Create a question that explores this specific subtopic
-    const branchQuestion = `Explore in detail: ${node.title}`;
-    
-    updateNodeQuestion(node.id, branchQuestion);
+  const modeOption = EXPLORE_MODE_OPTIONS.find(({ id }) => id === node.mode);
+  
+  /**
+   * Streams an answer for this branch in the chosen mode and adds its sub-branches.
+   * The server builds the actual question from the mode's prompt template; the
+   * mode is recorded on the node so it is clear how the answer was produced.
+   * On failure the node is restored and an inline error is shown instead;
+   * a cancelled generation is restored without an error.
+   * 
+   * @param mode - Exploration mode chosen from the action menu
+   */
+  const runExplore = async (mode: ExploreMode = 'deeper'): Promise<void> => {
+    const option = EXPLORE_MODE_OPTIONS.find(({ id }) => id === mode);
+    const branchQuestion = `${option?.label ?? 'Explore'}: ${node.title}`;
+    const previousContent = node.content;
+    const previousQuestion = node.question;
+    const previousMode = node.mode;
+    const addedNodeIds: string[] = [];
     
-    const { answer, branches } = await generateIdeas(branchQuestion, node.id);
+    setError(null);
+    updateNodeQuestion(node.id, branchQuestion, mode);
     
-    updateNodeContent(node.id, answer);
-    addBranchNodes(node.id, branches);
+    try {
+      // Send the path from the root question down to this node so the answer stays on topic
+      const generation = await streamIdeas(node.title, {
+        onAnswer: (answer) => updateNodeContent(node.id, answer),
+        onBranch: (branchNode, index, total) => {
+          addedNodeIds.push(branchNode.id);
+          appendBranchNode(node.id, branchNode, index, total);
+        },
+        onBranchesDiscarded: () => removeNodes(addedNodeIds.splice(0)),
+      }, { nodeId: node.id, mode });
+      setNodeGenerationInfo(node.id, generation);
+    } catch (error) {
+      // The user moved to another exploration; its nodes are not ours to roll back
+      if (useExplorationStore.getState().currentExplorationId !== currentExplorationId) return;
+      
+      removeNodes(addedNodeIds);
+      updateNodeContent(node.id, previousContent);
+      
+      const aiError = toAiError(error);
+      if (aiError.code === 'cancelled') {
+        updateNodeQuestion(node.id, previousQuestion ?? '', previousMode);
+      } else {
+        console.error('Error exploring branch:', error);
+        setError(aiError);
+      }
+    }
+  };
+  
+  const handleExplore = async (e: React.MouseEvent, mode: ExploreMode = 'deeper') => {
+    e.stopPropagation();
+    setModeMenuOpen(false);
+    await runExplore(mode);
   };
 
   return (
@@ -86,6 +165,7 @@ export default function BranchNode({ node, isActive }: BranchNodeProps): React.R
           "card-container",
           "w-[400px]",
           isActive && "ring-2 ring-primary",
+          isSelected && "outline-dashed outline-2 outline-offset-4 outline-primary",
           "overflow-visible"
         )}
         style={{ 
@@ -94,6 +174,11 @@ export default function BranchNode({ node, isActive }: BranchNodeProps): React.R
           transition: 'filter 0.2s ease, box-shadow 0.2s ease, border-color 0.2s ease'
         }}
         onClick={handleNodeClick}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setMenuPosition({ x: e.clientX, y: e.clientY });
+        }}
         data-node-id={node.id}
       >
         <AnchorDot nodeId={node.id} position="left" />
@@ -124,6 +209,11 @@ export default function BranchNode({ node, isActive }: BranchNodeProps): React.R
               }
             </Button>
           </div>
+          {autoBurrow.progress.status !== 'idle' && (
+            <div className="px-3 pb-3">
+              <AutoBurrowStatus autoBurrow={autoBurrow} />
+            </div>
+          )}
           <div className="px-3">
             {expanded && <div className="h-px bg-border/60" />}
           </div>
@@ -142,35 +232,108 @@ export default function BranchNode({ node, isActive }: BranchNodeProps): React.R
                 scrollbarWidth: 'none',
                 msOverflowStyle: 'none'
               }}>
+              {modeOption && (
+                <div className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                  <Sparkles className="h-3 w-3" />
+                  {modeOption.label}
+                </div>
+              )}
+              
+              {node.synthesized && (
+                <div className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                  <Combine className="h-3 w-3" />
+                  Combines {getParentNodes(node.id).length} nodes
+                </div>
+              )}
+              
               {node.content && (
                 <p className="text-base font-medium break-words">
                   {node.content}
                 </p>
               )}
               
-              <Button 
-                size="sm"
-                variant="outline"
-                className="w-full text-xs gap-1 border-border hover:bg-muted" 
-                onClick={handleExplore}
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <span className="flex items-center gap-1">
-                    <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                    Exploring...
-                  </span>
-                ) : (
-                  <span className="flex items-center gap-1">
-                    <Sparkles className="h-3 w-3" />
-                    Explore Deeper
-                  </span>
-                )}
-              </Button>
+              {node.fallbackModel && <FallbackModelNote model={node.fallbackModel} />}
+              {node.usage && <NodeUsageNote usage={node.usage} />}
+              
+              <NodeVersionBar
+                node={node}
+                label={node.question ? 'Regenerate answer' : node.synthesized ? 'Regenerate insight' : 'Regenerate branch'}
+                onRegenerate={regenerate}
+                isRegenerating={regeneration.isRegenerating}
+                onCancel={regeneration.cancel}
+              />
+              
+              {regeneration.error && (
+                <NodeError error={regeneration.error} onRetry={regenerate} />
+              )}
+              
+              {error ? (
+                <NodeError error={error} onRetry={() => runExplore(node.mode)} />
+              ) : (
+                <div className="flex gap-1">
+                  <Button 
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 text-xs gap-1 border-border hover:bg-muted" 
+                    onClick={handleExplore}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <span className="flex items-center gap-1">
+                        <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                        Exploring...
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1">
+                        <Sparkles className="h-3 w-3" />
+                        Explore Deeper
+                      </span>
+                    )}
+                  </Button>
+                  <Popover open={modeMenuOpen} onOpenChange={setModeMenuOpen}>
+                    <PopoverTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="px-2 border-border hover:bg-muted"
+                        onClick={(e) => e.stopPropagation()}
+                        disabled={isLoading}
+                        title="More ways to explore"
+                      >
+                        <ChevronDown className="h-3 w-3" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-64 p-1" onClick={(e) => e.stopPropagation()}>
+                      {EXPLORE_MODE_OPTIONS.map((option) => (
+                        <button
+                          key={option.id}
+                          type="button"
+                          className="flex w-full flex-col items-start rounded-sm px-2 py-1.5 text-left hover:bg-muted"
+                          onClick={(e) => handleExplore(e, option.id)}
+                        >
+                          <span className="text-sm">{option.label}</span>
+                          <span className="text-xs text-muted-foreground">{option.description}</span>
+                        </button>
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              )}
+              
+              {isLoading && <CancelButton onCancel={cancel} />}
+              
+              <FollowUpInput parentId={node.id} />
+              <NodeThread node={node} />
             </div>
           </div>
         </CardContent>
       </Card>
+      <NodeContextMenu
+        node={node}
+        position={menuPosition}
+        onClose={() => setMenuPosition(null)}
+        autoBurrow={autoBurrow}
+      />
     </>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Props for the CancelButton component
+ */
+interface CancelButtonProps {
+  /** Called when the user stops the generation */
+  onCancel: () => void;
+  /** Button text */
+  label?: string;
+}
+
+/**
+ * CancelButton Component
+ *
+ * Shown while an answer is being generated so the user can stop it.
+ * Anything already added for that generation is rolled back by the caller.
+ *
+ * @param props - Component props
+ * @returns React component that renders the stop button
+ */
+export default function CancelButton({ onCancel, label = 'Stop generating' }: CancelButtonProps): React.ReactElement {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="w-full text-xs gap-1 border-border hover:bg-muted"
+      onClick={(e) => {
+        e.stopPropagation();
+        onCancel();
+      }}
+    >
+      <Square className="h-3 w-3" />
+      {label}
+    </Button>
+  );
+}
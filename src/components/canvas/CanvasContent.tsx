@@ -10,6 +10,7 @@ import NodeConnections from './NodeConnections';
 interface CanvasContentProps {
   nodes: Record<string, Node>;
   activeNodeId: string;
+  selectedNodeIds: string[];
   draggingNodeId: string | null;
   handleNodeMouseDown: (e: React.MouseEvent, node: Node) => void;
 }
@@ -17,11 +18,13 @@ interface CanvasContentProps {
 const CanvasContent = React.memo(({ 
   nodes, 
   activeNodeId, 
+  selectedNodeIds,
   draggingNodeId, 
   handleNodeMouseDown 
 }: CanvasContentProps) => {
   const renderNode = useCallback((node: Node): React.ReactElement => {
     const isActive = node.id === activeNodeId;
+    const isSelected = selectedNodeIds.includes(node.id);
     const isDragging = draggingNodeId === node.id;
     
     return (
@@ -79,16 +82,18 @@ const CanvasContent = React.memo(({
           <ExploreNode
             node={node}
             isActive={isActive}
+            isSelected={isSelected}
           />
         ) : (
           <BranchNode
             node={node}
             isActive={isActive}
+            isSelected={isSelected}
           />
         )}
       </div>
     );
-  }, [activeNodeId, draggingNodeId, handleNodeMouseDown]);
+  }, [activeNodeId, selectedNodeIds, draggingNodeId, handleNodeMouseDown]);
 
   return (
     <>
@@ -6,13 +6,29 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useExplorationStore } from '@/store/explorationStore';
 import { useGemini } from '@/hooks/useGemini';
+import { useNodeRegeneration } from '@/hooks/useNodeRegeneration';
+import { useAutoBurrow } from '@/hooks/useAutoBurrow';
+import { useAutoTitle } from '@/hooks/useAutoTitle';
 import { Node } from '@/types';
 import { Send, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import DragHandle from './DragHandle';
 import AnchorDot from './AnchorDot';
+import NodeError from './NodeError';
+import ExploreOptionsPopover from './ExploreOptionsPopover';
+import FollowUpInput from './FollowUpInput';
+import NodeThread from './NodeThread';
+import NodeVersionBar from './NodeVersionBar';
+import FallbackModelNote from './FallbackModelNote';
+import NodeUsageNote from './NodeUsageNote';
+import CancelButton from './CancelButton';
+import NodeContextMenu from './NodeContextMenu';
+import AutoBurrowStatus from './AutoBurrowStatus';
 import { useZoom } from '@/contexts';
 import { getNodeSizeClasses } from '@/config/nodeConfig';
+import { AiError, toAiError } from '@/lib/ai/errors';
+import { DEFAULT_EXPLORE_OPTIONS } from '@/config/aiConfig';
+import { MAX_QUESTION_LENGTH } from '@/lib/ai/sanitize';
 
 /**
  * Props for the ExploreNode component
@@ -22,6 +38,8 @@ interface ExploreNodeProps {
   node: Node;
   /** Whether this node is currently active */
   isActive: boolean;
+  /** Whether this node is picked to be combined with others */
+  isSelected: boolean;
 }
 
 /**
@@ -33,27 +51,42 @@ interface ExploreNodeProps {
  * @param props - Component props
  * @returns React component that renders an exploration node
  */
-export default function ExploreNode({ node, isActive }: ExploreNodeProps): React.ReactElement {
+export default function ExploreNode({ node, isActive, isSelected }: ExploreNodeProps): React.ReactElement {
   const [question, setQuestion] = useState<string>('');
   const [isExpanded, setIsExpanded] = useState<boolean>(!!node.question);
   const [showThinking, setShowThinking] = useState<boolean>(false);
+  const [error, setError] = useState<AiError | null>(null);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
   const thinkingTimerRef = useRef<NodeJS.Timeout | null>(null);
   
   // Check if this node has children using the store's hasChildNodes function
   const { 
-    addBranchNodes, 
+    appendBranchNode, 
+    removeNodes,
     updateNodeContent, 
     updateNodeQuestion, 
+    setNodeGenerationInfo,
     setActiveNode,
+    toggleNodeSelection,
     repositionOverlappingNodes,
     hasChildNodes,
-    draggingNodeId
+    draggingNodeId,
+    explorations,
+    currentExplorationId,
+    setExplorationOptions
   } = useExplorationStore();
   
+  // Answer options are remembered per exploration
+  const exploreOptions =
+    (currentExplorationId && explorations[currentExplorationId]?.exploreOptions) || DEFAULT_EXPLORE_OPTIONS;
+  
   // Check if the explore node has children
   const hasChildren = useMemo(() => hasChildNodes(node.id), [node.id, hasChildNodes]);
   
-  const { generateIdeas, isLoading } = useGemini();
+  const { streamIdeas, cancel, isLoading } = useGemini();
+  const regeneration = useNodeRegeneration(node);
+  const autoBurrow = useAutoBurrow(node);
+  const autoTitle = useAutoTitle();
   
   // Get the resetView function from our context
   const { resetView } = useZoom();
@@ -75,38 +108,72 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
   }, [isExpanded, node.id, repositionOverlappingNodes, draggingNodeId]);
   
   /**
-   * Handles the exploration action when a question is submitted
-   * Generates new branch nodes based on the question
+   * Streams the answer for a question into this node.
+   * If generation fails, branches that were already added are removed again
+   * and an inline error with a retry button is shown instead. A cancelled
+   * generation is rolled back the same way, without an error.
+   * 
+   * @param questionText - The question to answer
+   * @param previousQuestion - Question to restore if the generation is cancelled
    */
-  const handleExplore = async (): Promise<void> => {
-    if (!question.trim()) return;
-    
-    // Batch state updates before API call
-    const updates = {
-      question: question.trim(),
-      isExpanded: true,
-      showThinking: true
-    };
+  const runExplore = async (questionText: string, previousQuestion?: string): Promise<void> => {
+    const previousContent = node.content;
+    const addedNodeIds: string[] = [];
     
-    updateNodeQuestion(node.id, updates.question);
-    setIsExpanded(updates.isExpanded);
-    setShowThinking(updates.showThinking);
+    setError(null);
+    setShowThinking(true);
     
     try {
-      // Call Gemini API with the current node ID as parent
-      const { answer, branches } = await generateIdeas(updates.question, node.id);
+      // Stream the answer into this node and add each branch as soon as it is complete
+      const generation = await streamIdeas(questionText, {
+        onAnswer: (answer) => {
+          setShowThinking(false);
+          updateNodeContent(node.id, answer);
+        },
+        onBranch: (branchNode, index, total) => {
+          addedNodeIds.push(branchNode.id);
+          appendBranchNode(node.id, branchNode, index, total);
+        },
+        onBranchesDiscarded: () => removeNodes(addedNodeIds.splice(0)),
+      });
+      setNodeGenerationInfo(node.id, generation);
+      autoTitle(currentExplorationId);
       
-      // Batch state updates after API call
-      updateNodeContent(node.id, answer);
-      addBranchNodes(node.id, branches);
-      setShowThinking(false);
       setQuestion('');
     } catch (error) {
-      console.error('Error in exploration:', error);
+      // The user moved to another exploration; its nodes are not ours to roll back
+      if (useExplorationStore.getState().currentExplorationId !== currentExplorationId) return;
+      
+      removeNodes(addedNodeIds);
+      updateNodeContent(node.id, previousContent);
+      
+      const aiError = toAiError(error);
+      if (aiError.code === 'cancelled') {
+        if (previousQuestion !== undefined) updateNodeQuestion(node.id, previousQuestion);
+      } else {
+        console.error('Error in exploration:', error);
+        setError(aiError);
+      }
+    } finally {
       setShowThinking(false);
     }
   };
   
+  /**
+   * Handles the exploration action when a question is submitted
+   * Generates new branch nodes based on the question
+   */
+  const handleExplore = async (): Promise<void> => {
+    if (!question.trim()) return;
+    
+    const trimmedQuestion = question.trim();
+    const previousQuestion = node.question ?? '';
+    updateNodeQuestion(node.id, trimmedQuestion);
+    setIsExpanded(true);
+    
+    await runExplore(trimmedQuestion, previousQuestion);
+  };
+  
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey && question.trim()) {
       e.preventDefault();
@@ -126,6 +193,7 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
           "card-container",
           "w-[400px]",
           isActive && "ring-2 ring-primary",
+          isSelected && "outline-dashed outline-2 outline-offset-4 outline-primary",
           "overflow-visible"
         )}
         style={{ 
@@ -147,9 +215,20 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
           // This handler will only zoom to the node
           e.stopPropagation(); // Prevent event from bubbling up to draggable handler
           
+          // Shift-click picks nodes to combine instead
+          if (e.shiftKey) {
+            toggleNodeSelection(node.id);
+            return;
+          }
+          
           // Set this as the active node and zoom to it
           setActiveNode(node.id);
         }}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setMenuPosition({ x: e.clientX, y: e.clientY });
+        }}
         data-node-id={node.id}
       >
         {/* Always show right anchor dot for the explore node */}
@@ -167,6 +246,11 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
                   {node.question}
                 </h3>
               </div>
+              {autoBurrow.progress.status !== 'idle' && (
+                <div className="px-3 pb-3">
+                  <AutoBurrowStatus autoBurrow={autoBurrow} />
+                </div>
+              )}
               <div className="px-3">
                 <div className="h-px bg-border/60" />
               </div>
@@ -182,11 +266,31 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
                       <div className="h-4 bg-muted/50 rounded animate-pulse w-1/2" />
                       <div className="h-4 bg-muted/50 rounded animate-pulse w-5/6" />
                     </div>
+                    <CancelButton onCancel={cancel} />
                   </div>
+                ) : error ? (
+                  <NodeError error={error} onRetry={() => runExplore(node.question ?? '')} />
                 ) : (
-                  <p className="text-base font-medium break-words">
-                    {node.content}
-                  </p>
+                  <div className="space-y-3">
+                    <p className="text-base font-medium break-words">
+                      {node.content}
+                    </p>
+                    {node.fallbackModel && <FallbackModelNote model={node.fallbackModel} />}
+                    {node.usage && <NodeUsageNote usage={node.usage} />}
+                    {isLoading && <CancelButton onCancel={cancel} />}
+                    <NodeVersionBar
+                      node={node}
+                      label="Regenerate answer"
+                      onRegenerate={regeneration.regenerateAnswer}
+                      isRegenerating={regeneration.isRegenerating}
+                      onCancel={regeneration.cancel}
+                    />
+                    {regeneration.error && (
+                      <NodeError error={regeneration.error} onRetry={regeneration.regenerateAnswer} />
+                    )}
+                    <FollowUpInput parentId={node.id} />
+                    <NodeThread node={node} />
+                  </div>
                 )}
               </div>
             </>
@@ -198,11 +302,19 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
                   value={question}
                   onChange={(e) => setQuestion(e.target.value)}
                   placeholder="Ask a question..."
-                  className="pr-10 text-sm"
+                  maxLength={MAX_QUESTION_LENGTH}
+                  className="pr-20 text-sm"
                   onKeyDown={handleKeyDown}
                   disabled={isLoading}
                 />
                 <div className="absolute inset-y-0 right-0 flex items-center">
+                  <ExploreOptionsPopover
+                    options={exploreOptions}
+                    onChange={(options) => {
+                      if (currentExplorationId) setExplorationOptions(currentExplorationId, options);
+                    }}
+                    disabled={isLoading}
+                  />
                   <Button
                     size="icon"
                     variant="ghost"
@@ -230,6 +342,13 @@ export default function ExploreNode({ node, isActive }: ExploreNodeProps): React
           )}
         </CardContent>
       </Card>
+      <NodeContextMenu
+        node={node}
+        position={menuPosition}
+        onClose={() => setMenuPosition(null)}
+        // Only an answered question has branches to burrow into
+        autoBurrow={hasChildren ? autoBurrow : undefined}
+      />
     </>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,129 @@
+'use client';
+
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { ExploreOptions } from '@/types';
+import {
+  ANSWER_LENGTH_OPTIONS,
+  MAX_BRANCH_COUNT,
+  MIN_BRANCH_COUNT,
+  READING_LEVEL_OPTIONS,
+} from '@/config/aiConfig';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the ExploreOptionsPopover component
+ */
+interface ExploreOptionsPopoverProps {
+  /** Options currently in effect for the exploration */
+  options: ExploreOptions;
+  /** Called with the updated options whenever a setting changes */
+  onChange: (options: ExploreOptions) => void;
+  /** Disables the trigger while an answer is being generated */
+  disabled?: boolean;
+}
+
+/**
+ * Row of toggle buttons used for the enumerated settings
+ */
+function SegmentedControl<T extends string>({
+  value,
+  choices,
+  onSelect,
+}: {
+  value: T;
+  choices: { id: T; label: string }[];
+  onSelect: (value: T) => void;
+}): React.ReactElement {
+  return (
+    <div className="grid grid-flow-col auto-cols-fr gap-1 rounded-md bg-muted p-1">
+      {choices.map((choice) => (
+        <button
+          key={choice.id}
+          type="button"
+          className={cn(
+            "rounded px-2 py-1 text-xs transition-colors",
+            value === choice.id
+              ? "bg-background text-foreground shadow-sm"
+              : "text-muted-foreground hover:text-foreground"
+          )}
+          onClick={() => onSelect(choice.id)}
+        >
+          {choice.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * ExploreOptionsPopover Component
+ *
+ * Settings button shown next to the question input. Lets the user choose how
+ * many branches to generate, how long the answer should be and the reading
+ * level it is written for.
+ *
+ * @param props - Component props
+ * @returns React component that renders the options trigger and popover
+ */
+export default function ExploreOptionsPopover({
+  options,
+  onChange,
+  disabled,
+}: ExploreOptionsPopoverProps): React.ReactElement {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          disabled={disabled}
+          title="Answer options"
+        >
+          <SlidersHorizontal className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-72 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs font-medium">
+            <span>Branches</span>
+            <span className="text-muted-foreground">{options.branchCount}</span>
+          </div>
+          <Slider
+            min={MIN_BRANCH_COUNT}
+            max={MAX_BRANCH_COUNT}
+            step={1}
+            value={[options.branchCount]}
+            onValueChange={([branchCount]) => onChange({ ...options, branchCount })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium">Answer length</div>
+          <SegmentedControl
+            value={options.answerLength}
+            choices={ANSWER_LENGTH_OPTIONS}
+            onSelect={(answerLength) => onChange({ ...options, answerLength })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium">Reading level</div>
+          <SegmentedControl
+            value={options.readingLevel}
+            choices={READING_LEVEL_OPTIONS}
+            onSelect={(readingLevel) => onChange({ ...options, readingLevel })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import React from 'react';
+import { Info } from 'lucide-react';
+
+/**
+ * Props for the FallbackModelNote component
+ */
+interface FallbackModelNoteProps {
+  /** Model that answered in place of the primary one */
+  model: string;
+}
+
+/**
+ * FallbackModelNote Component
+ *
+ * Small notice under an answer produced by the fallback model, shown because
+ * its quality may differ from the usual model's.
+ *
+ * @param props - Component props
+ * @returns React component that renders the notice
+ */
+export default function FallbackModelNote({ model }: FallbackModelNoteProps): React.ReactElement {
+  return (
+    <div
+      className="flex items-center gap-1 text-xs text-muted-foreground"
+      title="The usual model was unavailable, so a fallback model answered"
+    >
+      <Info className="h-3 w-3 shrink-0" />
+      <span className="break-words">Answered by fallback model ({model})</span>
+    </div>
+  );
+}
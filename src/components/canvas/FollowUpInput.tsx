@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from '@/hooks/useGemini';
+import { Node } from '@/types';
+import { Send, Square } from 'lucide-react';
+import NodeError from './NodeError';
+import { DEFAULT_NODE_SIZE } from '@/config/nodeConfig';
+import { AiError, toAiError } from '@/lib/ai/errors';
+import { MAX_QUESTION_LENGTH } from '@/lib/ai/sanitize';
+
+/**
+ * Props for the FollowUpInput component
+ */
+interface FollowUpInputProps {
+  /** Node the follow-up question is asked about */
+  parentId: string;
+}
+
+/**
+ * FollowUpInput Component
+ *
+ * Free-text follow-up question shown inside a node. Submitting it adds a new
+ * child answer node, streams the answer and its branches into it, and sends
+ * the parent's path (including the parent's own content) as context.
+ *
+ * @param props - Component props
+ * @returns React component that renders the follow-up question input
+ */
+export default function FollowUpInput({ parentId }: FollowUpInputProps): React.ReactElement {
+  const [question, setQuestion] = useState<string>('');
+  const [error, setError] = useState<AiError | null>(null);
+  const {
+    addFollowUpNode,
+    appendBranchNode,
+    removeNodes,
+    updateNodeContent,
+    setNodeGenerationInfo,
+    setActiveNode,
+    currentExplorationId
+  } = useExplorationStore();
+  const { streamIdeas, cancel, isLoading } = useGemini();
+
+  /**
+   * Creates the answer node for a follow-up question and streams into it.
+   * If generation fails or is cancelled, the new node and its branches are
+   * removed again and the question is kept so it can be retried.
+   *
+   * @param questionText - The follow-up question
+   */
+  const runFollowUp = async (questionText: string): Promise<void> => {
+    const childNode: Node = {
+      id: uuidv4(),
+      title: questionText,
+      question: questionText,
+      content: '',
+      type: 'branch',
+      position: { x: 0, y: 0 },
+      size: DEFAULT_NODE_SIZE,
+    };
+    const addedNodeIds: string[] = [childNode.id];
+
+    setError(null);
+    addFollowUpNode(parentId, childNode);
+    setActiveNode(childNode.id);
+
+    try {
+      const generation = await streamIdeas(questionText, {
+        onAnswer: (answer) => updateNodeContent(childNode.id, answer),
+        onBranch: (branchNode, index, total) => {
+          addedNodeIds.push(branchNode.id);
+          appendBranchNode(childNode.id, branchNode, index, total);
+        },
+        // The first added node is the follow-up itself, which stays
+        onBranchesDiscarded: () => removeNodes(addedNodeIds.splice(1)),
+      }, { nodeId: parentId });
+      setNodeGenerationInfo(childNode.id, generation);
+
+      setQuestion('');
+    } catch (error) {
+      // The user moved to another exploration; its nodes are not ours to roll back
+      if (useExplorationStore.getState().currentExplorationId !== currentExplorationId) return;
+
+      removeNodes(addedNodeIds);
+      setActiveNode(parentId);
+
+      const aiError = toAiError(error);
+      if (aiError.code !== 'cancelled') {
+        console.error('Error answering follow-up question:', error);
+        setError(aiError);
+      }
+    }
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!question.trim() || isLoading) return;
+    await runFollowUp(question.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey && question.trim()) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="relative">
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a follow-up question..."
+          maxLength={MAX_QUESTION_LENGTH}
+          className="pr-10 text-sm"
+          onKeyDown={handleKeyDown}
+          disabled={isLoading}
+        />
+        <div className="absolute inset-y-0 right-0 flex items-center">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => (isLoading ? cancel() : handleSubmit())}
+            disabled={!question.trim() && !isLoading}
+            title={isLoading ? 'Stop generating' : undefined}
+          >
+            {isLoading ? (
+              <Square className="h-3 w-3" />
+            ) : (
+              <Send className="h-3 w-3" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <NodeError error={error} onRetry={() => runFollowUp(question.trim())} />
+      )}
+    </div>
+  );
+}
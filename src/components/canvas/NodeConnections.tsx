@@ -2,23 +2,37 @@
 
 import React, { useEffect, useState } from 'react';
 import { useExplorationStore } from '@/store/explorationStore';
-import { Node } from '@/types';
+import { CrossLink, CrossLinkRelation, Node } from '@/types';
 import SmoothCircle from './SmoothCircle';
 import { NODE_SIZES, DEFAULT_NODE_SIZE } from '@/config/nodeConfig';
+import { CROSS_LINK_RELATION_OPTIONS } from '@/config/aiConfig';
 
 interface StableConnection {
   source: string;
   target: string;
 }
 
+// Dash pattern of each kind of cross-link, so they read apart from the solid
+// tree connections and from each other
+const CROSS_LINK_DASHES: Record<CrossLinkRelation, string> = {
+  contradicts: '2 5',
+  example_of: '10 6',
+  same_concept: '6 4 1 4',
+};
+
+// How far a cross-link bows away from the straight line, as a share of its length
+const CROSS_LINK_CURVE = 0.15;
+
 /**
  * NodeConnections Component
  * 
  * Handles both the connection logic and rendering of node connections.
  * Maintains parent-child relationships and renders connection lines properly aligned with anchor dots.
+ * Cross-links the user accepted are drawn between node centers as labeled dashed arcs.
  */
 export default function NodeConnections(): React.ReactElement {
-  const { nodes, connections, setConnections } = useExplorationStore();
+  const { nodes, connections, setConnections, explorations, currentExplorationId } = useExplorationStore();
+  const crossLinks = (currentExplorationId && explorations[currentExplorationId]?.crossLinks) || [];
   const [stableConnections, setStableConnections] = useState<StableConnection[]>(connections);
   const [points, setPoints] = useState<{ x: number; y: number; source: string; target: string; id: number; relativePosition: number }[]>([]);
   const [hoveredPointId, setHoveredPointId] = useState<string | null>(null);
@@ -206,6 +220,63 @@ export default function NodeConnections(): React.ReactElement {
     );
   };
 
+  // Render an accepted cross-link as a dashed arc between node centers, labeled with how they relate
+  const renderCrossLink = (link: CrossLink) => {
+    const sourceNode = nodes[link.source];
+    const targetNode = nodes[link.target];
+
+    // A node may have been deleted since the link was accepted
+    if (!sourceNode || !targetNode) {
+      return null;
+    }
+
+    const start = sourceNode.position;
+    const end = targetNode.position;
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+
+    // Bow the arc sideways so it does not run along a tree connection
+    const control = {
+      x: (start.x + end.x) / 2 - dy * CROSS_LINK_CURVE,
+      y: (start.y + end.y) / 2 + dx * CROSS_LINK_CURVE,
+    };
+    // Midpoint of the quadratic curve, where the label sits
+    const label = {
+      x: (start.x + 2 * control.x + end.x) / 4,
+      y: (start.y + 2 * control.y + end.y) / 4,
+    };
+    const relation = CROSS_LINK_RELATION_OPTIONS.find((option) => option.id === link.relation);
+
+    return (
+      <g key={`link-${link.source}-${link.target}`}>
+        <title>{`${relation?.label ?? link.relation}: ${link.reason}`}</title>
+        <path
+          d={`M ${start.x} ${start.y} Q ${control.x} ${control.y}, ${end.x} ${end.y}`}
+          stroke="hsl(var(--muted-foreground))"
+          strokeWidth="1.5"
+          strokeDasharray={CROSS_LINK_DASHES[link.relation]}
+          strokeLinecap="round"
+          fill="none"
+          opacity={0.8}
+        />
+        <text
+          x={label.x}
+          y={label.y}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize={12}
+          fontStyle="italic"
+          fill="hsl(var(--muted-foreground))"
+          stroke="hsl(var(--background))"
+          strokeWidth={4}
+          paintOrder="stroke"
+        >
+          {relation?.label ?? link.relation}
+        </text>
+      </g>
+    );
+  };
+
   // Replace the return of the component to render a single SVG container
   return (
     <svg
@@ -224,6 +295,7 @@ export default function NodeConnections(): React.ReactElement {
       {stableConnections.map(connection => 
         renderConnectionGroup(connection.source, connection.target, `${connection.source}-${connection.target}`)
       )}
+      {crossLinks.map(renderCrossLink)}
     </svg>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { FileSearch, Pickaxe } from 'lucide-react';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { Node } from '@/types';
+import { AutoBurrow } from '@/hooks/useAutoBurrow';
+import NodeInspector from './NodeInspector';
+import AutoBurrowDialog from './AutoBurrowDialog';
+
+/**
+ * Props for the NodeContextMenu component
+ */
+interface NodeContextMenuProps {
+  /** Node the menu acts on */
+  node: Node;
+  /** Where the menu was opened, in viewport coordinates, or null while it is closed */
+  position: { x: number; y: number } | null;
+  /** Called when the menu should close */
+  onClose: () => void;
+  /** The node's auto-burrow controls; the menu offers auto-burrow when set */
+  autoBurrow?: AutoBurrow;
+}
+
+/**
+ * NodeContextMenu Component
+ *
+ * Menu opened by right-clicking a node, anchored at the pointer. Its actions
+ * open dialogs that stay open after the menu closes.
+ *
+ * @param props - Component props
+ * @returns React component that renders the menu and any dialog it opened
+ */
+export default function NodeContextMenu({ node, position, onClose, autoBurrow }: NodeContextMenuProps): React.ReactElement {
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [isConfiguringBurrow, setIsConfiguringBurrow] = useState(false);
+
+  // Zero-size anchor at the pointer; Radix positions the menu against it
+  const anchorRef = useMemo(() => ({
+    current: {
+      getBoundingClientRect: () => DOMRect.fromRect({ x: position?.x ?? 0, y: position?.y ?? 0, width: 0, height: 0 }),
+    },
+  }), [position]);
+
+  return (
+    <>
+      <Popover open={!!position} onOpenChange={(open) => !open && onClose()}>
+        <PopoverAnchor virtualRef={anchorRef} />
+        <PopoverContent
+          align="start"
+          side="bottom"
+          sideOffset={0}
+          className="w-48 p-1"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            type="button"
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-muted"
+            onClick={() => {
+              onClose();
+              setIsInspecting(true);
+            }}
+          >
+            <FileSearch className="h-4 w-4" />
+            Inspect AI details
+          </button>
+          {autoBurrow && (
+            <button
+              type="button"
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-muted disabled:pointer-events-none disabled:opacity-50"
+              disabled={autoBurrow.isRunning}
+              onClick={() => {
+                onClose();
+                setIsConfiguringBurrow(true);
+              }}
+            >
+              <Pickaxe className="h-4 w-4" />
+              Auto-burrow...
+            </button>
+          )}
+        </PopoverContent>
+      </Popover>
+      {isInspecting && <NodeInspector node={node} onClose={() => setIsInspecting(false)} />}
+      {isConfiguringBurrow && autoBurrow && (
+        <AutoBurrowDialog node={node} autoBurrow={autoBurrow} onClose={() => setIsConfiguringBurrow(false)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AiError } from '@/lib/ai/errors';
+
+/**
+ * Props for the NodeError component
+ */
+interface NodeErrorProps {
+  /** The error returned by the AI route */
+  error: AiError;
+  /** Called when the user asks to retry the failed generation */
+  onRetry: () => void;
+}
+
+/**
+ * NodeError Component
+ *
+ * Inline error state shown inside a node when generating an answer fails.
+ * Nothing is written to the exploration; the user can simply retry.
+ *
+ * @param props - Component props
+ * @returns React component that renders the error message and a retry button
+ */
+export default function NodeError({ error, onRetry }: NodeErrorProps): React.ReactElement {
+  // Quota errors say when the user can try again
+  const resetAt = error.code === 'quota_exceeded' && error.resetAt ? new Date(error.resetAt) : null;
+
+  return (
+    <div className="space-y-2 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+      <div className="flex items-start gap-2 text-destructive">
+        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+        <span className="break-words">{error.userMessage}</span>
+      </div>
+      {resetAt && !isNaN(resetAt.getTime()) && (
+        <p className="text-xs text-muted-foreground">
+          Available again at {resetAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+        </p>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full text-xs gap-1 border-border hover:bg-muted"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRetry();
+        }}
+      >
+        <RotateCw className="h-3 w-3" />
+        Try again
+      </Button>
+    </div>
+  );
+}
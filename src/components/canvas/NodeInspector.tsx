@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useExplorationStore } from '@/store/explorationStore';
+import { AiAuditEntry, AiAuditSummary, AiCallKind, Node, NodeProvenance } from '@/types';
+import { ANSWER_LENGTH_OPTIONS, EXPLORE_MODE_OPTIONS, READING_LEVEL_OPTIONS } from '@/config/aiConfig';
+
+/**
+ * Props for the NodeInspector component
+ */
+interface NodeInspectorProps {
+  /** Node whose AI details are shown */
+  node: Node;
+  /** Called when the user closes the inspector */
+  onClose: () => void;
+}
+
+const CALL_KIND_LABELS: Record<AiCallKind, string> = {
+  explore: 'Answer',
+  branch: 'Branch',
+  chat: 'Chat reply',
+  report: 'Report',
+  ask: 'Exploration question',
+  title: 'Title',
+  synthesis: 'Synthesis',
+  links: 'Cross-links',
+};
+
+// Request ids of everything generated for a node: its answer, earlier versions and chat replies
+const getNodeRequestIds = (node: Node): Set<string> =>
+  new Set(
+    [
+      node.provenance,
+      ...(node.versions ?? []).map((version) => version.provenance),
+      ...(node.thread ?? []).map((turn) => turn.provenance),
+    ]
+      .filter((provenance): provenance is NodeProvenance => !!provenance)
+      .map((provenance) => provenance.requestId)
+  );
+
+const describeOptions = ({ options }: NodeProvenance): string | undefined => {
+  if (!options) return undefined;
+
+  const length = ANSWER_LENGTH_OPTIONS.find((option) => option.id === options.answerLength)?.label ?? options.answerLength;
+  const level = READING_LEVEL_OPTIONS.find((option) => option.id === options.readingLevel)?.label ?? options.readingLevel;
+  return `${options.branchCount} branches, ${length.toLowerCase()} answer, ${level.toLowerCase()} reading level`;
+};
+
+/**
+ * Label and value rows describing one provenance record
+ */
+function ProvenanceDetails({ provenance }: { provenance: NodeProvenance }): React.ReactElement {
+  const mode = EXPLORE_MODE_OPTIONS.find((option) => option.id === provenance.mode)?.label;
+  const rows: [string, string | undefined][] = [
+    ['Model', `${provenance.model} (${provenance.provider})`],
+    ['Prompt template', provenance.templateVersion],
+    ['Custom template', provenance.customTemplate && `${provenance.customTemplate.name} v${provenance.customTemplate.version}`],
+    ['Mode', mode],
+    ['Options', describeOptions(provenance)],
+    ['Generated', new Date(provenance.createdAt).toLocaleString()],
+    ['Context hash', provenance.contextHash.slice(0, 16)],
+    ['Source', provenance.cached ? 'Response cache' : undefined],
+  ];
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {rows.filter(([, value]) => value).map(([label, value]) => (
+        <React.Fragment key={label}>
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="break-words" title={label === 'Context hash' ? provenance.contextHash : undefined}>
+            {value}
+          </dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * One collapsible audit log entry with the raw prompt and response, when they
+ * were recorded in this session
+ */
+function AuditEntryDetails({
+  entry,
+  isCurrent,
+}: {
+  entry: AiAuditEntry | AiAuditSummary;
+  isCurrent: boolean;
+}): React.ReactElement {
+  const { provenance } = entry;
+
+  return (
+    <details className="rounded-md border border-border">
+      <summary className="flex cursor-pointer flex-wrap items-center gap-x-2 px-3 py-2 text-sm">
+        <span className="font-medium">{CALL_KIND_LABELS[entry.kind]}</span>
+        <span className="text-muted-foreground">{new Date(provenance.createdAt).toLocaleString()}</span>
+        <span className="text-muted-foreground">{provenance.model}</span>
+        <span className="text-muted-foreground">{entry.durationMs} ms</span>
+        {isCurrent && <span className="rounded-full bg-primary/10 px-2 text-xs text-primary">Current</span>}
+        {provenance.cached && <span className="rounded-full bg-muted px-2 text-xs">Cached</span>}
+        {entry.repaired && <span className="rounded-full bg-muted px-2 text-xs">Repaired</span>}
+      </summary>
+      <div className="space-y-3 border-t border-border px-3 py-2">
+        <ProvenanceDetails provenance={provenance} />
+        {!('prompt' in entry) && (
+          <p className="text-xs text-muted-foreground">
+            The raw prompt and response are only kept until the page is reloaded.
+          </p>
+        )}
+        {'systemInstruction' in entry && entry.systemInstruction && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">System instruction</p>
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">{entry.systemInstruction}</pre>
+          </div>
+        )}
+        {'prompt' in entry && (
+          <>
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Prompt</p>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">{entry.prompt}</pre>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Response</p>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">{entry.response}</pre>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+/**
+ * NodeInspector Component
+ *
+ * Dialog showing how a node's answer was generated: its provenance and the
+ * raw requests and responses recorded in the exploration's audit log.
+ * Rendered into the document body so the canvas zoom does not scale it.
+ *
+ * @param props - Component props
+ * @returns React component that renders the inspector dialog
+ */
+export default function NodeInspector({ node, onClose }: NodeInspectorProps): React.ReactElement {
+  const auditLog = useExplorationStore((state) =>
+    state.currentExplorationId ? state.explorations[state.currentExplorationId]?.auditLog : undefined
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const requestIds = getNodeRequestIds(node);
+  const entries = (auditLog ?? [])
+    .filter((entry) => requestIds.has(entry.provenance.requestId))
+    .reverse();
+
+  // Keep clicks, drags and scrolling inside the dialog from reaching the canvas
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onPointerDown={stopPropagation}
+      onWheel={stopPropagation}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="AI details"
+        className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-lg border border-border bg-card text-card-foreground shadow-lg"
+        onClick={stopPropagation}
+      >
+        <div className="flex items-start justify-between gap-2 border-b border-border p-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold">AI details</h2>
+            <p className="truncate text-sm text-muted-foreground">{node.question || node.title}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto p-4">
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Current answer</h3>
+            {node.provenance ? (
+              <ProvenanceDetails provenance={node.provenance} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No provenance was recorded for this answer.</p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Audit log</h3>
+            {entries.length > 0 ? (
+              entries.map((entry) => (
+                <AuditEntryDetails
+                  key={entry.provenance.requestId}
+                  entry={entry}
+                  isCurrent={entry.provenance.requestId === node.provenance?.requestId}
+                />
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No AI calls are recorded for this node.</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
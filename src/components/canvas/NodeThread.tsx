@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from '@/hooks/useGemini';
+import { ChatTurn, Node } from '@/types';
+import { ArrowUpRight, ChevronDown, ChevronUp, MessageSquare, Send, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import NodeError from './NodeError';
+import FallbackModelNote from './FallbackModelNote';
+import { DEFAULT_NODE_SIZE } from '@/config/nodeConfig';
+import { AiError, toAiError } from '@/lib/ai/errors';
+import { MAX_MESSAGE_LENGTH } from '@/lib/ai/sanitize';
+
+/**
+ * Props for the NodeThread component
+ */
+interface NodeThreadProps {
+  /** Node the conversation is about */
+  node: Node;
+}
+
+// Find the question and answer a turn belongs to, so either half can be promoted
+const getTurnPair = (thread: ChatTurn[], index: number): { question?: string; answer?: string } => {
+  const turn = thread[index];
+  if (turn.role === 'user') {
+    const reply = thread[index + 1];
+    return { question: turn.content, answer: reply?.role === 'model' ? reply.content : undefined };
+  }
+  const prompt = thread[index - 1];
+  return { question: prompt?.role === 'user' ? prompt.content : undefined, answer: turn.content };
+};
+
+/**
+ * NodeThread Component
+ *
+ * Expandable conversation about a node. Every message is answered with the
+ * whole thread as history, and any turn can be promoted to a child node on
+ * the canvas.
+ *
+ * @param props - Component props
+ * @returns React component that renders the thread toggle, messages and input
+ */
+export default function NodeThread({ node }: NodeThreadProps): React.ReactElement {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<AiError | null>(null);
+  const { setNodeThread, addFollowUpNode, setActiveNode, currentExplorationId } = useExplorationStore();
+  const { streamChat, cancel, isLoading } = useGemini();
+  const thread = node.thread ?? [];
+
+  /**
+   * Adds the user's message to the thread and streams the reply after it.
+   * If the reply fails or is cancelled, the thread is restored and the message
+   * kept for a retry.
+   *
+   * @param messageText - The user's message
+   */
+  const sendMessage = async (messageText: string): Promise<void> => {
+    const history = thread;
+    const userTurn: ChatTurn = {
+      id: uuidv4(),
+      role: 'user',
+      content: messageText,
+      createdAt: new Date().toISOString(),
+    };
+    const modelTurn: ChatTurn = {
+      id: uuidv4(),
+      role: 'model',
+      content: '',
+      createdAt: new Date().toISOString(),
+    };
+
+    setError(null);
+    setNodeThread(node.id, [...history, userTurn]);
+
+    try {
+      await streamChat(node.id, messageText, history, (answer, info) => {
+        setNodeThread(node.id, [...history, userTurn, { ...modelTurn, content: answer, ...info }]);
+      });
+      setMessage('');
+    } catch (error) {
+      // The user moved to another exploration; its nodes are not ours to roll back
+      if (useExplorationStore.getState().currentExplorationId !== currentExplorationId) return;
+
+      setNodeThread(node.id, history);
+
+      const aiError = toAiError(error);
+      if (aiError.code !== 'cancelled') {
+        console.error('Error in node conversation:', error);
+        setError(aiError);
+      }
+    }
+  };
+
+  const handleSend = async (): Promise<void> => {
+    if (!message.trim() || isLoading) return;
+    await sendMessage(message.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey && message.trim()) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  /**
+   * Turns a question and answer from the thread into a child node
+   *
+   * @param index - Index of the turn that was promoted
+   */
+  const handlePromote = (index: number): void => {
+    const { question, answer } = getTurnPair(thread, index);
+    const childNode: Node = {
+      id: uuidv4(),
+      title: question ?? node.title,
+      question,
+      content: answer ?? '',
+      type: 'branch',
+      position: { x: 0, y: 0 },
+      size: DEFAULT_NODE_SIZE,
+    };
+
+    addFollowUpNode(node.id, childNode);
+    setActiveNode(childNode.id);
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="w-full justify-between text-xs text-muted-foreground hover:bg-muted"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="flex items-center gap-1">
+          <MessageSquare className="h-3 w-3" />
+          Discussion{thread.length > 0 && ` (${thread.length})`}
+        </span>
+        {isOpen ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-2">
+          {thread.length > 0 && (
+            <div
+              className="space-y-2 max-h-[300px] overflow-y-auto hover-scrollbar"
+              style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
+            >
+              {thread.map((turn, index) => (
+                <div
+                  key={turn.id}
+                  className={cn(
+                    "group relative rounded-md p-2 pr-7 text-sm break-words whitespace-pre-wrap",
+                    turn.role === 'user' ? "ml-6 bg-primary/10" : "mr-6 bg-muted"
+                  )}
+                >
+                  {turn.content || (
+                    <span className="text-muted-foreground animate-pulse">Thinking...</span>
+                  )}
+                  {turn.fallbackModel && (
+                    <div className="mt-1 whitespace-normal">
+                      <FallbackModelNote model={turn.fallbackModel} />
+                    </div>
+                  )}
+                  {turn.content && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="absolute top-1 right-1 h-5 w-5 opacity-0 group-hover:opacity-100"
+                      onClick={() => handlePromote(index)}
+                      disabled={isLoading}
+                      title="Promote to a node"
+                    >
+                      <ArrowUpRight className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <NodeError error={error} onRetry={() => sendMessage(message.trim())} />
+          )}
+
+          <div className="relative">
+            <Input
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Discuss this topic..."
+              maxLength={MAX_MESSAGE_LENGTH}
+              className="pr-10 text-sm"
+              onKeyDown={handleKeyDown}
+              disabled={isLoading}
+            />
+            <div className="absolute inset-y-0 right-0 flex items-center">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => (isLoading ? cancel() : handleSend())}
+                disabled={!message.trim() && !isLoading}
+                title={isLoading ? 'Stop generating' : undefined}
+              >
+                {isLoading ? (
+                  <Square className="h-3 w-3" />
+                ) : (
+                  <Send className="h-3 w-3" />
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
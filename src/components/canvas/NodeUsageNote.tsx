@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { NodeUsage } from '@/types';
+import { estimateCostUsd, formatCostUsd, formatTokenCount } from '@/lib/ai/usage';
+
+/**
+ * Props for the NodeUsageNote component
+ */
+interface NodeUsageNoteProps {
+  /** Tokens used to generate the node's current answer */
+  usage: NodeUsage;
+}
+
+/**
+ * NodeUsageNote Component
+ *
+ * Token count and estimated cost of a node's answer, with the prompt/output
+ * split and the model in the tooltip.
+ *
+ * @param props - Component props
+ * @returns React component that renders the usage line
+ */
+export default function NodeUsageNote({ usage }: NodeUsageNoteProps): React.ReactElement {
+  const cost = estimateCostUsd(usage.model, usage);
+
+  return (
+    <div
+      className="flex items-center gap-1 text-xs text-muted-foreground"
+      title={`${usage.model}: ${usage.promptTokens} prompt + ${usage.outputTokens} output tokens`}
+    >
+      <Coins className="h-3 w-3 shrink-0" />
+      <span>
+        {formatTokenCount(usage.promptTokens + usage.outputTokens)} tokens
+        {cost !== null && ` · ~${formatCostUsd(cost)}`}
+      </span>
+    </div>
+  );
+}
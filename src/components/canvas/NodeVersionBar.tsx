@@ -0,0 +1,85 @@
+'use client';
+
+import React from 'react';
+import { ChevronLeft, ChevronRight, RefreshCw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useExplorationStore } from '@/store/explorationStore';
+import { Node } from '@/types';
+
+/**
+ * Props for the NodeVersionBar component
+ */
+interface NodeVersionBarProps {
+  /** Node whose versions are shown */
+  node: Node;
+  /** Label of the regenerate button, e.g. "Regenerate answer" */
+  label: string;
+  /** Called when the user asks for a new version */
+  onRegenerate: () => void;
+  /** Whether a new version is being generated */
+  isRegenerating: boolean;
+  /** Stops the generation in progress */
+  onCancel: () => void;
+}
+
+/**
+ * NodeVersionBar Component
+ *
+ * Regenerate button plus a "2 / 3" switcher between the versions kept on a
+ * node. The switcher only appears once the node has been regenerated.
+ *
+ * @param props - Component props
+ * @returns React component that renders the version controls
+ */
+export default function NodeVersionBar({
+  node,
+  label,
+  onRegenerate,
+  isRegenerating,
+  onCancel,
+}: NodeVersionBarProps): React.ReactElement {
+  const { switchNodeVersion } = useExplorationStore();
+  const versionCount = node.versions?.length ?? 0;
+  const versionIndex = node.versionIndex ?? 0;
+
+  return (
+    <div className="flex items-center justify-between gap-2" onClick={(e) => e.stopPropagation()}>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-7 px-2 text-xs gap-1 text-muted-foreground hover:bg-muted"
+        onClick={isRegenerating ? onCancel : onRegenerate}
+        title={isRegenerating ? 'Stop regenerating' : undefined}
+      >
+        {isRegenerating ? <Square className="h-3 w-3" /> : <RefreshCw className="h-3 w-3" />}
+        {isRegenerating ? 'Stop regenerating' : label}
+      </Button>
+
+      {versionCount > 1 && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => switchNodeVersion(node.id, versionIndex - 1)}
+            disabled={isRegenerating || versionIndex === 0}
+            title="Previous version"
+          >
+            <ChevronLeft className="h-3 w-3" />
+          </Button>
+          <span>{versionIndex + 1} / {versionCount}</span>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => switchNodeVersion(node.id, versionIndex + 1)}
+            disabled={isRegenerating || versionIndex === versionCount - 1}
+            title="Next version"
+          >
+            <ChevronRight className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Combine, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from '@/hooks/useGemini';
+import { DEFAULT_NODE_SIZE } from '@/config/nodeConfig';
+import { AiError, isCancelledError, toAiError } from '@/lib/ai/errors';
+import { MAX_SYNTHESIS_SOURCES, MIN_SYNTHESIS_SOURCES } from '@/lib/ai/synthesis';
+import { Node } from '@/types';
+import NodeError from './NodeError';
+import CancelButton from './CancelButton';
+
+/**
+ * SynthesisBar Component
+ *
+ * Floating bar shown while nodes are picked with shift-click. Combines the
+ * picked nodes into a new node holding an insight that connects them, placed
+ * beside them and connected from each one.
+ *
+ * @returns React component that renders the bar, or nothing when no node is picked
+ */
+export default function SynthesisBar(): React.ReactElement | null {
+  const [error, setError] = useState<AiError | null>(null);
+  const nodes = useExplorationStore((state) => state.nodes);
+  const selectedNodeIds = useExplorationStore((state) => state.selectedNodeIds);
+  const addSynthesisNode = useExplorationStore((state) => state.addSynthesisNode);
+  const clearNodeSelection = useExplorationStore((state) => state.clearNodeSelection);
+  const setActiveNode = useExplorationStore((state) => state.setActiveNode);
+  const { synthesizeNodes, cancel, isLoading } = useGemini();
+
+  // Picked nodes that still exist, in the order they were picked
+  const sourceIds = selectedNodeIds.filter((nodeId) => nodes[nodeId]);
+  const canSynthesize = sourceIds.length >= MIN_SYNTHESIS_SOURCES && sourceIds.length <= MAX_SYNTHESIS_SOURCES;
+
+  // An error belongs to the selection it was made for
+  useEffect(() => {
+    setError(null);
+  }, [selectedNodeIds]);
+
+  if (sourceIds.length === 0) return null;
+
+  const runSynthesis = async (): Promise<void> => {
+    setError(null);
+    try {
+      const { synthesis, ...generation } = await synthesizeNodes(sourceIds);
+      const synthesisNode: Node = {
+        id: uuidv4(),
+        title: synthesis.title,
+        content: synthesis.insight,
+        type: 'branch',
+        position: { x: 0, y: 0 },
+        size: DEFAULT_NODE_SIZE,
+        synthesized: true,
+        ...generation,
+      };
+      addSynthesisNode(sourceIds, synthesisNode);
+      clearNodeSelection();
+      setActiveNode(synthesisNode.id);
+    } catch (err) {
+      if (!isCancelledError(err)) setError(toAiError(err));
+    }
+  };
+
+  const hint = sourceIds.length < MIN_SYNTHESIS_SOURCES
+    ? 'Shift-click another node to combine'
+    : sourceIds.length > MAX_SYNTHESIS_SOURCES
+      ? `Combine at most ${MAX_SYNTHESIS_SOURCES} nodes`
+      : `${sourceIds.length} nodes selected`;
+
+  return (
+    <div
+      className="w-80 space-y-2 rounded-lg border border-border bg-card/90 p-2 shadow-lg backdrop-blur-sm"
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2">
+        <span className="flex-1 truncate px-1 text-xs text-muted-foreground">{hint}</span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1 text-xs border-border hover:bg-muted"
+          onClick={runSynthesis}
+          disabled={!canSynthesize || isLoading}
+        >
+          {isLoading ? (
+            <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" />
+          ) : (
+            <Combine className="h-3 w-3" />
+          )}
+          {isLoading ? 'Synthesizing...' : 'Synthesize'}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={() => {
+            cancel();
+            clearNodeSelection();
+          }}
+          title="Clear selection"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {isLoading && <CancelButton onCancel={cancel} />}
+      {error && <NodeError error={error} onRetry={runSynthesis} />}
+    </div>
+  );
+}
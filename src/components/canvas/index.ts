@@ -4,5 +4,18 @@ export { default as InfiniteGrid } from './InfiniteGrid';
 export { default as ZoomControls } from './ZoomControls';
 export { default as DragHandle } from './DragHandle';
 export { default as AnchorDot } from './AnchorDot';
+export { default as NodeError } from './NodeError';
+export { default as CancelButton } from './CancelButton';
+export { default as ExploreOptionsPopover } from './ExploreOptionsPopover';
+export { default as FollowUpInput } from './FollowUpInput';
+export { default as NodeThread } from './NodeThread';
+export { default as NodeVersionBar } from './NodeVersionBar';
+export { default as FallbackModelNote } from './FallbackModelNote';
+export { default as NodeUsageNote } from './NodeUsageNote';
+export { default as NodeContextMenu } from './NodeContextMenu';
+export { default as NodeInspector } from './NodeInspector';
+export { default as AutoBurrowDialog } from './AutoBurrowDialog';
+export { default as AutoBurrowStatus } from './AutoBurrowStatus';
+export { default as SynthesisBar } from './SynthesisBar';
 export { default as NodeConnection } from './NodeConnection';
 export { default as NodeConnections } from './NodeConnections'; 
\ No newline at end of file
@@ -1,6 +1,8 @@
 // Export components directly
 export { default as Canvas } from './Canvas';
 export { default as SidePanel } from './SidePanel';
+export { default as UsageSummary } from './UsageSummary';
+export { default as PromptTemplateSettings } from './PromptTemplateSettings';
 export { 
   InfiniteGrid,
   NodeConnection,
@@ -0,0 +1,135 @@
+import { AiProviderId, AnswerLength, AutoBurrowSettings, CrossLinkRelation, ExploreMode, ExploreOptions, ReadingLevel } from '@/types';
+
+/**
+ * Base URL of the AI API Cloud Function. Hosting rewrites /api/** to it; set
+ * NEXT_PUBLIC_AI_API_URL to the function URL when running `next dev`.
+ */
+export const AI_API_BASE_URL = (process.env.NEXT_PUBLIC_AI_API_URL || '/api').replace(/\/+$/, '');
+
+/** Bounds for the number of branches generated per question */
+export const MIN_BRANCH_COUNT = 1;
+export const MAX_BRANCH_COUNT = 10;
+
+/** Upper bounds offered for auto-burrow settings; each AI call is charged to the user's quota */
+export const MAX_AUTO_BURROW_DEPTH = 4;
+export const MAX_AUTO_BURROW_BREADTH = 5;
+export const MAX_AUTO_BURROW_CONCURRENCY = 4;
+
+/**
+ * Settings the auto-burrow dialog starts with
+ */
+export const DEFAULT_AUTO_BURROW_SETTINGS: AutoBurrowSettings = {
+  depth: 2,
+  breadth: 3,
+  concurrency: 2,
+};
+
+/**
+ * Options used for questions until the user changes them for an exploration
+ */
+export const DEFAULT_EXPLORE_OPTIONS: ExploreOptions = {
+  branchCount: 5,
+  answerLength: 'standard',
+  readingLevel: 'general',
+};
+
+/** Choices shown in the question options popover */
+export const ANSWER_LENGTH_OPTIONS: { id: AnswerLength; label: string }[] = [
+  { id: 'brief', label: 'Brief' },
+  { id: 'standard', label: 'Standard' },
+  { id: 'detailed', label: 'Detailed' },
+];
+
+export const READING_LEVEL_OPTIONS: { id: ReadingLevel; label: string }[] = [
+  { id: 'simple', label: 'Simple' },
+  { id: 'general', label: 'General' },
+  { id: 'expert', label: 'Expert' },
+];
+
+/**
+ * Exploration modes offered on branch nodes, in menu order.
+ * `label` is also used as the question prefix shown on the explored node.
+ */
+export const EXPLORE_MODE_OPTIONS: { id: ExploreMode; label: string; description: string }[] = [
+  { id: 'deeper', label: 'Go deeper', description: 'A more detailed explanation' },
+  { id: 'examples', label: 'Concrete examples', description: 'Real-world cases that illustrate it' },
+  { id: 'counterargument', label: 'Counterargument', description: 'The strongest case against it' },
+  { id: 'history', label: 'Historical background', description: 'How it came to be' },
+  { id: 'howto', label: 'How-to steps', description: 'Practical steps to apply it' },
+  { id: 'compare', label: 'Compare alternatives', description: 'How it differs from other options' },
+];
+
+/**
+ * Relations a suggested cross-link can have, with how they read on the canvas
+ */
+export const CROSS_LINK_RELATION_OPTIONS: { id: CrossLinkRelation; label: string; description: string }[] = [
+  { id: 'contradicts', label: 'contradicts', description: 'The two make claims that conflict' },
+  { id: 'example_of', label: 'example of', description: 'One is a concrete case of the other' },
+  { id: 'same_concept', label: 'same concept', description: 'Both describe the same idea from different angles' },
+];
+
+/**
+ * Providers an exploration can be switched to. The deployment default
+ * (AI_PROVIDER on the server) is used when an exploration has none.
+ */
+export const AI_PROVIDER_OPTIONS: { id: AiProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI-compatible' },
+  { id: 'ollama', label: 'Local (Ollama)' },
+  { id: 'mock', label: 'Mock (offline)' },
+];
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Whether a value is a usable price: non-negative numbers for input and output
+const isModelPrice = (value: unknown): value is ModelPrice => {
+  const price = value as Partial<ModelPrice> | null;
+  return typeof price === 'object' && price !== null &&
+    typeof price.input === 'number' && Number.isFinite(price.input) && price.input >= 0 &&
+    typeof price.output === 'number' && Number.isFinite(price.output) && price.output >= 0;
+};
+
+// Prices from NEXT_PUBLIC_AI_MODEL_PRICES, leaving out entries that are not prices
+// so that a typo can never turn cost estimates into NaN
+const parseModelPriceOverrides = (json: string | undefined): Record<string, ModelPrice> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json || '{}');
+  } catch {
+    console.warn('Ignoring NEXT_PUBLIC_AI_MODEL_PRICES: not valid JSON');
+    return {};
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    console.warn('Ignoring NEXT_PUBLIC_AI_MODEL_PRICES: not a JSON object');
+    return {};
+  }
+
+  return Object.fromEntries(Object.entries(parsed).filter(([model, price]) => {
+    if (isModelPrice(price)) return true;
+    console.warn(`Ignoring NEXT_PUBLIC_AI_MODEL_PRICES entry for "${model}": expected numeric "input" and "output" prices`);
+    return false;
+  }));
+};
+
+/**
+ * List prices used for cost estimates. Deployments on other models or price
+ * tiers override or extend them with NEXT_PUBLIC_AI_MODEL_PRICES, a JSON object
+ * such as `{"gemini-2.0-flash": {"input": 0.1, "output": 0.4}}`.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  mock: { input: 0, output: 0 },
+  ...parseModelPriceOverrides(process.env.NEXT_PUBLIC_AI_MODEL_PRICES),
+};
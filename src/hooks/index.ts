@@ -2,4 +2,8 @@
 
 export * from './canvas';
 
-export { useGemini } from './useGemini'; 
\ No newline at end of file
+export { useGemini } from './useGemini';
+export { useNodeRegeneration } from './useNodeRegeneration';
+export { useMonthlyUsage } from './useMonthlyUsage';
+export { useAutoBurrow } from './useAutoBurrow';
+export { useAutoTitle } from './useAutoTitle';
@@ -0,0 +1,360 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AutoBurrowSettings, Connection, Node } from '@/types';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from './useGemini';
+import { AiError, toAiError } from '@/lib/ai/errors';
+import { EXPLORE_MODE_OPTIONS } from '@/config/aiConfig';
+
+/**
+ * Where an auto-burrow run stands
+ */
+export interface AutoBurrowProgress {
+  status: 'idle' | 'running' | 'paused' | 'done' | 'cancelled';
+  /** AI calls that have finished, successfully or not */
+  completed: number;
+  /** AI calls that failed; their nodes were restored */
+  failed: number;
+  /** AI calls in flight */
+  running: number;
+  /** Most AI calls the run may make, as previewed before it started */
+  budget: number;
+  /** The last failure, if any */
+  error?: AiError;
+  /** The refusal that paused the run when the user's AI quota ran out */
+  quotaError?: AiError;
+  /** ISO timestamp when a run paused by the rate limit starts again by itself */
+  resumeAt?: string;
+}
+
+/**
+ * A node waiting to be explored, with the levels of branches still to add below it
+ */
+interface BurrowTask {
+  nodeId: string;
+  levels: number;
+}
+
+const IDLE_PROGRESS: AutoBurrowProgress = { status: 'idle', completed: 0, failed: 0, running: 0, budget: 0 };
+
+// Auto-burrow explores each branch the way "Explore Deeper" does
+const AUTO_BURROW_MODE = 'deeper';
+
+// Longest wait for a quota to reset before the run resumes by itself; the
+// per-minute limit resets within this, the daily quota needs the user
+const MAX_AUTO_RESUME_DELAY_MS = 5 * 60 * 1000;
+
+// The first `breadth` nodes below a node, in the order they were added
+const getChildIds = (
+  nodeId: string,
+  breadth: number,
+  nodes: Record<string, Node>,
+  connections: Connection[]
+): string[] =>
+  connections
+    .filter((conn) => conn.source === nodeId && nodes[conn.target])
+    .map((conn) => conn.target)
+    .slice(0, breadth);
+
+// Only branches without an answer are explored; anything else is walked through
+const needsExploring = (node: Node): boolean => node.type === 'branch' && !node.question;
+
+/**
+ * Counts the AI calls an auto-burrow from a node would make at most: one for
+ * every unexplored branch on the way down, including branches that do not
+ * exist yet. Nodes explored already cost nothing and are walked through.
+ *
+ * @param nodeId - Node the auto-burrow starts from
+ * @param settings - Depth and breadth of the run
+ * @param branchCount - Branches generated per answer, from the exploration's options
+ * @param nodes - Nodes of the current exploration
+ * @param connections - Connections of the current exploration
+ */
+export function estimateAutoBurrowCalls(
+  nodeId: string,
+  settings: AutoBurrowSettings,
+  branchCount: number,
+  nodes: Record<string, Node>,
+  connections: Connection[]
+): number {
+  const breadth = Math.min(settings.breadth, branchCount);
+  // Calls for a branch that has not been generated yet, with `levels` levels below and including it
+  const newSubtreeCalls = (levels: number): number =>
+    levels <= 0 ? 0 : 1 + breadth * newSubtreeCalls(levels - 1);
+
+  const visit = (id: string, levels: number): number => {
+    const node = nodes[id];
+    if (!node || levels <= 0) return 0;
+
+    const childIds = getChildIds(id, settings.breadth, nodes, connections);
+    if (childIds.length === 0) return needsExploring(node) ? newSubtreeCalls(levels) : 0;
+    return childIds.reduce((sum, childId) => sum + visit(childId, levels - 1), 0);
+  };
+
+  return visit(nodeId, settings.depth);
+}
+
+/**
+ * Recursively explores the branches below a node, several at a time, until
+ * the chosen depth is reached or the previewed budget of AI calls is used up.
+ * A run can be paused, which lets the calls in flight finish, and cancelled,
+ * which aborts them and restores their nodes. Nodes that were already
+ * explored are walked through without a call.
+ *
+ * @param node - Node the auto-burrow starts from
+ */
+export function useAutoBurrow(node: Node) {
+  const { streamIdeas } = useGemini();
+  const [progress, setProgress] = useState<AutoBurrowProgress>(IDLE_PROGRESS);
+
+  // The run's queue and counters live in refs so the workers always see the latest values
+  const queueRef = useRef<BurrowTask[]>([]);
+  const settingsRef = useRef<AutoBurrowSettings | null>(null);
+  const controllersRef = useRef<Set<AbortController>>(new Set());
+  const startedRef = useRef(0);
+  const budgetRef = useRef(0);
+  const pausedRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const explorationIdRef = useRef<string | null>(null);
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Abort the run's requests when the node's component unmounts
+  useEffect(() => () => {
+    cancelledRef.current = true;
+    controllersRef.current.forEach((controller) => controller.abort());
+    if (resumeTimerRef.current) clearTimeout(resumeTimerRef.current);
+  }, []);
+
+  const clearResumeTimer = () => {
+    if (resumeTimerRef.current) clearTimeout(resumeTimerRef.current);
+    resumeTimerRef.current = null;
+  };
+
+  /**
+   * Streams an answer for one branch and adds its sub-branches, restoring the
+   * branch when the call fails
+   *
+   * @returns The IDs of the branches added, in order
+   */
+  const exploreNode = async (target: Node, signal: AbortSignal): Promise<string[]> => {
+    const { updateNodeQuestion, updateNodeContent, appendBranchNode, setNodeGenerationInfo, removeNodes } =
+      useExplorationStore.getState();
+    const option = EXPLORE_MODE_OPTIONS.find(({ id }) => id === AUTO_BURROW_MODE);
+    const addedNodeIds: string[] = [];
+
+    updateNodeQuestion(target.id, `${option?.label ?? 'Explore'}: ${target.title}`, AUTO_BURROW_MODE);
+
+    try {
+      const generation = await streamIdeas(target.title, {
+        onAnswer: (answer) => updateNodeContent(target.id, answer),
+        onBranch: (branchNode, index, total) => {
+          addedNodeIds.push(branchNode.id);
+          appendBranchNode(target.id, branchNode, index, total);
+        },
+        onBranchesDiscarded: () => removeNodes(addedNodeIds.splice(0)),
+      }, { nodeId: target.id, mode: AUTO_BURROW_MODE, signal });
+      setNodeGenerationInfo(target.id, generation);
+      return addedNodeIds;
+    } catch (error) {
+      // The user moved to another exploration; its nodes are not ours to roll back
+      if (useExplorationStore.getState().currentExplorationId === explorationIdRef.current) {
+        removeNodes(addedNodeIds);
+        updateNodeContent(target.id, target.content);
+        updateNodeQuestion(target.id, target.question ?? '', target.mode);
+      }
+      throw error;
+    }
+  };
+
+  // Marks the run finished once nothing is queued or in flight
+  const finishIfIdle = () => {
+    if (controllersRef.current.size > 0) return;
+    if (queueRef.current.length > 0 && !cancelledRef.current && startedRef.current < budgetRef.current) return;
+
+    setProgress((current) =>
+      current.status === 'running' || current.status === 'paused'
+        ? { ...current, status: cancelledRef.current ? 'cancelled' : 'done' }
+        : current
+    );
+  };
+
+  /**
+   * Starts queued work until the concurrency limit is reached. Nodes that
+   * need no call are expanded into their children straight away.
+   */
+  const pump = () => {
+    const settings = settingsRef.current;
+    if (!settings) return;
+
+    while (
+      !pausedRef.current &&
+      !cancelledRef.current &&
+      controllersRef.current.size < settings.concurrency &&
+      queueRef.current.length > 0
+    ) {
+      const task = queueRef.current.shift()!;
+      const { nodes, connections } = useExplorationStore.getState();
+      const target = nodes[task.nodeId];
+      if (!target || task.levels <= 0) continue;
+
+      if (!needsExploring(target)) {
+        getChildIds(target.id, settings.breadth, nodes, connections).forEach((childId) =>
+          queueRef.current.push({ nodeId: childId, levels: task.levels - 1 })
+        );
+        continue;
+      }
+
+      // Never go over the budget the user agreed to
+      if (startedRef.current >= budgetRef.current) {
+        queueRef.current = [];
+        break;
+      }
+
+      const controller = new AbortController();
+      controllersRef.current.add(controller);
+      startedRef.current++;
+      setProgress((current) => ({ ...current, running: controllersRef.current.size }));
+
+      exploreNode(target, controller.signal)
+        .then((childIds) => {
+          if (task.levels > 1) {
+            childIds.slice(0, settings.breadth).forEach((childId) =>
+              queueRef.current.push({ nodeId: childId, levels: task.levels - 1 })
+            );
+          }
+          controllersRef.current.delete(controller);
+          setProgress((current) => ({ ...current, completed: current.completed + 1, running: controllersRef.current.size }));
+        })
+        .catch((error) => {
+          controllersRef.current.delete(controller);
+          const aiError = toAiError(error);
+
+          // A cancelled call is not a failure: either the user cancelled the run or left the exploration
+          if (aiError.code === 'cancelled') {
+            cancelledRef.current = true;
+            controllersRef.current.forEach((other) => other.abort());
+            setProgress((current) => ({ ...current, running: controllersRef.current.size }));
+            return;
+          }
+
+          // The server's quota check refused the call before it reached the model, so
+          // the branch goes back to the front of the queue and the run waits for the
+          // reset. Only that check sends `resetAt`; anything else was charged and fails below.
+          if (aiError.code === 'quota_exceeded' && aiError.resetAt) {
+            startedRef.current--;
+            queueRef.current.unshift(task);
+            pauseForQuota(aiError);
+            return;
+          }
+
+          console.error('Error auto-burrowing branch:', error);
+          setProgress((current) => ({
+            ...current,
+            completed: current.completed + 1,
+            failed: current.failed + 1,
+            running: controllersRef.current.size,
+            error: aiError,
+          }));
+        })
+        .finally(() => {
+          pump();
+        });
+    }
+
+    finishIfIdle();
+  };
+
+  /** Lets a paused run start calls again */
+  const continueRun = () => {
+    clearResumeTimer();
+    if (cancelledRef.current) return;
+    pausedRef.current = false;
+    setProgress((current) =>
+      current.status === 'paused'
+        ? { ...current, status: 'running', quotaError: undefined, resumeAt: undefined }
+        : current
+    );
+    pump();
+  };
+
+  /**
+   * Pauses the run after the AI quota refused a call. It resumes by itself
+   * once a per-minute limit resets; the daily quota is left to the user.
+   */
+  const pauseForQuota = (error: AiError) => {
+    pausedRef.current = true;
+
+    const delay = error.resetAt ? Date.parse(error.resetAt) - Date.now() : NaN;
+    const resumeAt = delay <= MAX_AUTO_RESUME_DELAY_MS ? error.resetAt : undefined;
+    if (resumeAt && !resumeTimerRef.current) {
+      resumeTimerRef.current = setTimeout(continueRun, Math.max(0, delay));
+    }
+
+    setProgress((current) => ({
+      ...current,
+      status: 'paused',
+      running: controllersRef.current.size,
+      quotaError: error,
+      resumeAt: current.resumeAt ?? resumeAt,
+    }));
+  };
+
+  /**
+   * Starts a run from the node
+   *
+   * @param settings - Depth, breadth and concurrency of the run
+   * @param budget - Most AI calls the run may make, as previewed to the user
+   */
+  const start = (settings: AutoBurrowSettings, budget: number) => {
+    if (progress.status === 'running' || progress.status === 'paused' || budget <= 0) return;
+
+    settingsRef.current = settings;
+    queueRef.current = [{ nodeId: node.id, levels: settings.depth }];
+    startedRef.current = 0;
+    budgetRef.current = budget;
+    pausedRef.current = false;
+    cancelledRef.current = false;
+    explorationIdRef.current = useExplorationStore.getState().currentExplorationId;
+    setProgress({ ...IDLE_PROGRESS, status: 'running', budget });
+    pump();
+  };
+
+  /** Stops starting new calls; the ones in flight finish */
+  const pause = () => {
+    if (progress.status !== 'running') return;
+    pausedRef.current = true;
+    setProgress((current) => ({ ...current, status: 'paused' }));
+  };
+
+  const resume = () => {
+    if (progress.status !== 'paused') return;
+    continueRun();
+  };
+
+  /** Aborts the calls in flight, restoring their nodes, and drops the rest of the run */
+  const cancel = () => {
+    clearResumeTimer();
+    cancelledRef.current = true;
+    queueRef.current = [];
+    controllersRef.current.forEach((controller) => controller.abort());
+    if (controllersRef.current.size === 0) {
+      setProgress((current) => ({ ...current, status: 'cancelled' }));
+    }
+  };
+
+  /** Clears a finished or cancelled run's summary */
+  const dismiss = () => {
+    if (progress.status === 'running' || progress.status === 'paused') return;
+    setProgress(IDLE_PROGRESS);
+  };
+
+  const isRunning = progress.status === 'running' || progress.status === 'paused';
+
+  return { progress, isRunning, start, pause, resume, cancel, dismiss };
+}
+
+/**
+ * The controls returned by useAutoBurrow
+ */
+export type AutoBurrow = ReturnType<typeof useAutoBurrow>;
@@ -0,0 +1,30 @@
+'use client';
+
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from './useGemini';
+import { isCancelledError } from '@/lib/ai/errors';
+
+/**
+ * Replaces an exploration's title with a short generated one once its first
+ * question has been answered. Only a title taken from the first question is
+ * replaced, and only once; a title the user typed is never touched. Uses its
+ * own request slot, so it does not cancel or show as the caller's request.
+ *
+ * @returns A function that titles an exploration, to call after an answer completes
+ */
+export function useAutoTitle() {
+  const { generateTitle } = useGemini();
+
+  return async (explorationId: string | null): Promise<void> => {
+    if (!explorationId) return;
+    if (useExplorationStore.getState().explorations[explorationId]?.titleSource !== 'question') return;
+
+    try {
+      const { title } = await generateTitle(explorationId);
+      useExplorationStore.getState().setGeneratedExplorationTitle(explorationId, title);
+    } catch (error) {
+      // The question stays the title; the user can still ask for a suggestion
+      if (!isCancelledError(error)) console.warn('Could not generate an exploration title:', error);
+    }
+  };
+}
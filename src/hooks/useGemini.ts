@@ -1,95 +1,834 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Node, Branch, GeminiResponse, Connection } from '@/types';
+import {
+  Node,
+  Branch,
+  AiAuditEntry,
+  AiQuotaStatus,
+  AncestorContext,
+  ChatTurn,
+  CrossLink,
+  CrossLinkResponseItem,
+  ExploreMode,
+  ExploreOptions,
+  ExplorationAnswer,
+  ExplorationReport,
+  NodeGenerationInfo,
+  NodeUsage,
+  ReportResponse,
+  SynthesisResponse,
+} from '@/types';
 import { useExplorationStore } from '@/store/explorationStore';
+import { usePromptTemplateStore } from '@/store/templateStore';
 import { DEFAULT_NODE_SIZE } from '@/config/nodeConfig';
+import { AI_API_BASE_URL, DEFAULT_EXPLORE_OPTIONS } from '@/config/aiConfig';
+import { readSseStream } from '@/lib/ai/sse';
+import { AiError, isCancelledError, toAiError } from '@/lib/ai/errors';
+import { auth } from '@/lib/firebase';
+import { CustomTemplateRequest } from '@/lib/ai/templates';
+import { MAX_REPORT_NODES, OutlineNode } from '@/lib/ai/report';
+import { MAX_ASK_NODES } from '@/lib/ai/ask';
+import { MAX_SYNTHESIS_SOURCES, MIN_SYNTHESIS_SOURCES } from '@/lib/ai/synthesis';
+import { MIN_CROSS_LINK_NODES } from '@/lib/ai/crossLinks';
+
+/**
+ * How a chat reply was generated, reported when it completes
+ */
+type ChatReplyInfo = Pick<ChatTurn, 'fallbackModel' | 'provenance'>;
+
+/**
+ * Callbacks invoked while a streamed answer is being generated
+ */
+interface StreamHandlers {
+  /** Called with the full answer text generated so far */
+  onAnswer: (answer: string) => void;
+  /** Called once per branch, in order, as soon as it is complete; `total` is the number requested */
+  onBranch: (branchNode: Node, index: number, total: number) => void;
+  /**
+   * Called on completion when the validated answer's branches differ from the ones
+   * streamed, e.g. after the server repaired invalid output. Every branch passed to
+   * `onBranch` so far is to be dropped; the final branches follow through `onBranch`.
+   */
+  onBranchesDiscarded: () => void;
+}
+
+
+/**
+ * Options for a streamed request
+ */
+interface StreamOptions {
+  /** Node being explored; its path from the root is sent as context */
+  nodeId?: string;
+  /** Content sent for the explored node itself in place of its current content */
+  nodeContent?: string;
+  /** Exploration mode; the question is then the branch title and the server applies the mode's template */
+  mode?: ExploreMode;
+  /** Skip the server's response cache, e.g. when the user explicitly regenerates */
+  bypassCache?: boolean;
+  /**
+   * Runs the request alongside the hook's current one instead of replacing it;
+   * aborting the signal cancels it. The hook's `isLoading` does not cover it.
+   */
+  signal?: AbortSignal;
+}
+
+const calculatePosition = () => {
+  return {
+    x: 0,
+    y: 0
+  };
+};
+
+const toBranchNode = (branch: Branch): Node => ({
+  id: uuidv4(),
+  title: branch.title || 'Explore this idea',
+  content: branch.description || 'No description available',
+  type: 'branch' as const,
+  position: calculatePosition(),
+  size: DEFAULT_NODE_SIZE,
+});
+
+// Whether two branch lists have the same branches in the same order
+const isSameBranchList = (a: Branch[], b: Branch[]): boolean =>
+  a.length === b.length &&
+  b.every((branch, index) => a[index]?.title === branch.title && a[index]?.description === branch.description);
+
+// A node as the AI routes take it in context: explore nodes are named by their question
+const toAncestorContext = (node: Node): AncestorContext => ({
+  title: node.type === 'explore' ? node.question || node.title : node.title,
+  question: node.question,
+  content: node.content,
+});
+
+// Build the root-to-node path sent as context so answers stay on the original topic;
+// `nodeContent` replaces the content of the node itself
+const getAncestorContext = (nodeId?: string, nodeContent?: string): AncestorContext[] => {
+  if (!nodeId) return [];
+  
+  return useExplorationStore.getState().getAncestorPath(nodeId)
+    .filter((node) => node.type === 'branch' || node.question)
+    .map((node) => toAncestorContext(
+      node.id === nodeId && nodeContent !== undefined ? { ...node, content: nodeContent } : node
+    ));
+};
+
+// Walk the current exploration's tree depth-first from its roots, giving each node a
+// short reference for the report and ask routes; returns the nodes and their IDs by reference
+const getOutlineNodes = (maxNodes: number): { nodes: OutlineNode[]; nodeIds: Map<string, string> } => {
+  const { nodes, connections } = useExplorationStore.getState();
+  const targets = new Set(connections.map((conn) => conn.target));
+  const outlineNodes: OutlineNode[] = [];
+  const nodeIds = new Map<string, string>();
+  const visited = new Set<string>();
+
+  const visit = (nodeId: string, parentRef?: string) => {
+    const node = nodes[nodeId];
+    if (!node || visited.has(nodeId) || outlineNodes.length >= maxNodes) return;
+    visited.add(nodeId);
+
+    const ref = `n${outlineNodes.length + 1}`;
+    nodeIds.set(ref, nodeId);
+    outlineNodes.push({
+      ref,
+      parentRef,
+      title: node.type === 'explore' ? node.question || node.title : node.title,
+      question: node.question,
+      content: node.content,
+    });
+    connections
+      .filter((conn) => conn.source === nodeId)
+      .forEach((conn) => visit(conn.target, ref));
+  };
+
+  Object.keys(nodes)
+    .filter((nodeId) => !targets.has(nodeId))
+    .forEach((nodeId) => visit(nodeId));
+
+  return { nodes: outlineNodes, nodeIds };
+};
+
+// Node IDs of the references an answer cites, ignoring references that name no node
+const resolveCitations = (refs: string[], nodeIds: Map<string, string>): Record<string, string> =>
+  Object.fromEntries(refs.filter((ref) => nodeIds.has(ref)).map((ref) => [ref, nodeIds.get(ref)!]));
+
+// The AI provider chosen for the current exploration, if it overrides the deployment default
+const getExplorationProvider = () => {
+  const { explorations, currentExplorationId } = useExplorationStore.getState();
+  return currentExplorationId ? explorations[currentExplorationId]?.provider : undefined;
+};
+
+// Answer options remembered for the current exploration
+const getExplorationOptions = (): ExploreOptions => {
+  const { explorations, currentExplorationId } = useExplorationStore.getState();
+  return (currentExplorationId && explorations[currentExplorationId]?.exploreOptions) || DEFAULT_EXPLORE_OPTIONS;
+};
+
+// The custom prompt template chosen for the current exploration, as the AI routes expect it
+const getExplorationTemplate = (): CustomTemplateRequest | undefined => {
+  const { explorations, currentExplorationId } = useExplorationStore.getState();
+  const templateId = currentExplorationId ? explorations[currentExplorationId]?.promptTemplateId : undefined;
+  const template = usePromptTemplateStore.getState().getCustomTemplate(templateId);
+  return template && {
+    id: template.id,
+    name: template.name,
+    version: template.version,
+    instructions: template.instructions,
+  };
+};
+
+// JSON headers plus the signed-in user's ID token, which the AI routes require
+const getRequestHeaders = async (): Promise<HeadersInit> => {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) {
+    throw new AiError('unauthenticated', 'Sign in to use AI features');
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${token}`,
+  };
+};
+
+// Add a response's tokens and audit entry to the exploration the request was made
+// from; cached answers carry no tokens
+const recordResponse = (explorationId: string | null, usage?: NodeUsage, audit?: AiAuditEntry) => {
+  if (!explorationId) return;
+  
+  const { recordExplorationUsage, recordAuditEntry } = useExplorationStore.getState();
+  if (usage) recordExplorationUsage(explorationId, usage);
+  if (audit) recordAuditEntry(explorationId, audit);
+};
+
+// Turn a failed response into an AiError, using the route's error body when present
+const responseError = async (response: Response): Promise<AiError> => {
+  const body = await response.json().catch(() => null);
+  return AiError.fromBody(body, `API error: ${response.status} ${response.statusText}`);
+};
+
+/**
+ * Reads the signed-in user's AI limits and what is left of today's quota. It
+ * needs no request slot, so reading it never cancels a generation.
+ *
+ * @param signal - Aborts the request
+ */
+const getQuotaStatus = async (signal?: AbortSignal): Promise<AiQuotaStatus> => {
+  const response = await fetch(`${AI_API_BASE_URL}/quota`, {
+    method: 'POST',
+    headers: await getRequestHeaders(),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await responseError(response);
+  }
+
+  return response.json();
+};
+
+// A controller that aborts together with `signal`, for requests run outside the hook's single request slot
+const createLinkedController = (signal: AbortSignal): AbortController => {
+  const controller = new AbortController();
+  if (signal.aborted) controller.abort();
+  else signal.addEventListener('abort', () => controller.abort(), { once: true });
+  return controller;
+};
+
+// Captures where a response is going to be written, so it can be discarded if
+// the user switched exploration or the node was removed before it arrived
+const createResponseGuard = (nodeId?: string) => {
+  const explorationId = useExplorationStore.getState().currentExplorationId;
+  
+  return () => {
+    const { currentExplorationId, nodes } = useExplorationStore.getState();
+    if (currentExplorationId !== explorationId || (nodeId && !nodes[nodeId])) {
+      throw new AiError('cancelled', 'The exploration changed before the response arrived');
+    }
+  };
+};
 
 export function useGemini() {
   const [isLoading, setIsLoading] = useState(false);
-
-  const generateIdeas = async (question: string, parentId?: string) => {
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // Abort anything still in flight when the component using this hook unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+  
+  // Each hook instance runs one request at a time; starting another cancels the previous one
+  const beginRequest = (): AbortController => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
+    return controller;
+  };
+  
+  const endRequest = (controller: AbortController) => {
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
+  
+  /**
+   * Cancels the request in flight, if any. The pending call rejects with a
+   * `cancelled` AiError.
+   */
+  const cancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Streams an answer for a question, reporting the answer text and each
+   * branch as soon as they are generated instead of resolving at the end.
+   *
+   * @param question - The question to answer
+   * @param handlers - Callbacks for answer progress and completed branches
+   * @param options - Optional node whose ancestor path is sent as context, exploration mode,
+   *   cache bypass and a signal for running it alongside other requests
+   * @returns Which model answered and how, once the answer is complete
+   * @throws AiError when the request fails; handlers may already have been called
+   */
+  const streamIdeas = async (
+    question: string,
+    handlers: StreamHandlers,
+    options: StreamOptions = {}
+  ): Promise<NodeGenerationInfo> => {
+    const controller = options.signal ? createLinkedController(options.signal) : beginRequest();
+    const ensureCurrent = createResponseGuard(options.nodeId);
+    const explorationId = useExplorationStore.getState().currentExplorationId;
+
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/gemini`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          prompt: question,
+          stream: true,
+          ancestors: getAncestorContext(options.nodeId, options.nodeContent),
+          mode: options.mode,
+          options: getExplorationOptions(),
+          provider: getExplorationProvider(),
+          template: getExplorationTemplate(),
+          bypassCache: options.bypassCache,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw await responseError(response);
+      }
+
+      const result: NodeGenerationInfo = {};
+      const streamedBranches: Branch[] = [];
+      await readSseStream(response.body, ({ event, data }) => {
+        ensureCurrent();
+        const payload = JSON.parse(data);
+
+        if (event === 'answer') {
+          handlers.onAnswer(payload.text);
+        } else if (event === 'branch') {
+          streamedBranches[payload.index] = payload.branch;
+          handlers.onBranch(toBranchNode(payload.branch), payload.index, payload.total);
+        } else if (event === 'done') {
+          // The final branches win over the streamed ones, so a repaired answer matches what was cached
+          const branches: Branch[] = Array.isArray(payload.branches) ? payload.branches : [];
+          if (!isSameBranchList(streamedBranches, branches)) {
+            handlers.onBranchesDiscarded();
+            branches.forEach((branch, index) => handlers.onBranch(toBranchNode(branch), index, branches.length));
+          }
+          result.fallbackModel = payload.fallbackModel;
+          result.usage = payload.usage;
+          result.provenance = payload.audit?.provenance;
+          recordResponse(explorationId, payload.usage, payload.audit);
+        } else if (event === 'error') {
+          throw AiError.fromBody(payload, 'The answer stream failed');
+        }
+      });
+
+      return result;
+    } catch (error) {
+      // Stop reading the stream when a late event was discarded
+      controller.abort();
+      if (!isCancelledError(error)) console.error('Error streaming ideas:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
+
+  /**
+   * Streams the model's reply to a message in a node's conversation thread.
+   *
+   * @param nodeId - Node being discussed; its path from the root is sent as context
+   * @param message - The user's new message
+   * @param thread - Previous turns, sent as history
+   * @param onAnswer - Called with the full reply text generated so far, and on
+   *   completion with how the reply was generated
+   * @returns The complete reply
+   * @throws AiError when the request fails
+   */
+  const streamChat = async (
+    nodeId: string,
+    message: string,
+    thread: ChatTurn[],
+    onAnswer: (answer: string, info?: ChatReplyInfo) => void
+  ): Promise<string> => {
+    const controller = beginRequest();
+    const ensureCurrent = createResponseGuard(nodeId);
+    const explorationId = useExplorationStore.getState().currentExplorationId;
+    
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/chat`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          message,
+          thread: thread.map(({ role, content }) => ({ role, content })),
+          ancestors: getAncestorContext(nodeId),
+          provider: getExplorationProvider(),
+          template: getExplorationTemplate(),
+        }),
+        signal: controller.signal,
+      });
+      
+      if (!response.ok || !response.body) {
+        throw await responseError(response);
+      }
+      
+      let reply = '';
+      await readSseStream(response.body, ({ event, data }) => {
+        ensureCurrent();
+        const payload = JSON.parse(data);
+        
+        if (event === 'answer') {
+          reply = payload.text;
+          onAnswer(reply);
+        } else if (event === 'done') {
+          reply = payload.text;
+          onAnswer(reply, { fallbackModel: payload.fallbackModel, provenance: payload.audit?.provenance });
+          recordResponse(explorationId, payload.usage, payload.audit);
+        } else if (event === 'error') {
+          throw AiError.fromBody(payload, 'The reply stream failed');
+        }
+      });
+      
+      return reply;
+    } catch (error) {
+      controller.abort();
+      if (!isCancelledError(error)) console.error('Error streaming chat reply:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
+
+  /**
+   * Generates a replacement for one branch, distinct from its siblings.
+   *
+   * @param nodeId - The branch node to replace
+   * @returns The new branch, and which model answered and how
+   * @throws AiError when the request fails or the node has no parent
+   */
+  const generateBranch = async (nodeId: string): Promise<NodeGenerationInfo & { branch: Branch }> => {
+    const { nodes, connections, getAncestorPath } = useExplorationStore.getState();
+    const path = getAncestorPath(nodeId);
+    const node = path[path.length - 1];
+    const parent = path[path.length - 2];
+    
+    if (!node || !parent) {
+      throw new AiError('invalid_request', 'Only branches of an answer can be regenerated');
+    }
+    
+    const siblings = connections
+      .filter((conn) => conn.source === parent.id && conn.target !== nodeId)
+      .map((conn) => nodes[conn.target])
+      .filter((sibling): sibling is Node => !!sibling)
+      .map((sibling) => ({ title: sibling.title, description: sibling.content }));
+    
+    const controller = beginRequest();
+    const ensureCurrent = createResponseGuard(nodeId);
+    const explorationId = useExplorationStore.getState().currentExplorationId;
+    
     try {
-      const response = await fetch('/api/gemini', {
+      const response = await fetch(`${AI_API_BASE_URL}/branch`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ prompt: question }),
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          prompt: parent.question || parent.title,
+          branch: { title: node.title, description: node.content },
+          siblings,
+          ancestors: getAncestorContext(parent.id),
+          options: getExplorationOptions(),
+          provider: getExplorationProvider(),
+          template: getExplorationTemplate(),
+        }),
+        signal: controller.signal,
       });
+      
+      if (!response.ok) {
+        throw await responseError(response);
+      }
+      
+      const data = await response.json();
+      ensureCurrent();
+      
+      if (!data?.branch?.title || !data.branch.description) {
+        throw new AiError('invalid_output', 'Invalid response structure from API');
+      }
+      
+      recordResponse(explorationId, data.usage, data.audit);
+      return {
+        branch: data.branch as Branch,
+        fallbackModel: data.fallbackModel,
+        usage: data.usage,
+        provenance: data.audit?.provenance,
+      };
+    } catch (error) {
+      if (!isCancelledError(error)) console.error('Error regenerating branch:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
 
-      // Check if the response is OK
+  /**
+   * Summarises the current exploration into a report with an executive
+   * summary and one section per explored node.
+   *
+   * @returns The report, with its sections pointing at the nodes they summarise
+   * @throws AiError when the request fails or nothing has been explored yet
+   */
+  const generateReport = async (): Promise<ExplorationReport> => {
+    const { explorations, currentExplorationId } = useExplorationStore.getState();
+    const { nodes, nodeIds } = getOutlineNodes(MAX_REPORT_NODES);
+    
+    if (!nodes.some((node) => node.question)) {
+      throw new AiError('invalid_request', 'Explore a question before generating a report');
+    }
+    
+    const controller = beginRequest();
+    const ensureCurrent = createResponseGuard();
+    
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/report`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          title: (currentExplorationId && explorations[currentExplorationId]?.title) || nodes[0].title,
+          nodes,
+          provider: getExplorationProvider(),
+        }),
+        signal: controller.signal,
+      });
+      
       if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
+        throw await responseError(response);
+      }
+      
+      const data = await response.json();
+      ensureCurrent();
+      
+      if (!data?.report?.summary || !Array.isArray(data.report.sections)) {
+        throw new AiError('invalid_output', 'Invalid response structure from API');
+      }
+      
+      recordResponse(currentExplorationId, data.usage, data.audit);
+      const report = data.report as ReportResponse;
+      return {
+        summary: report.summary,
+        sections: report.sections
+          .filter((section) => nodeIds.has(section.ref))
+          .map((section) => ({ nodeId: nodeIds.get(section.ref)!, summary: section.summary })),
+        nodeCount: nodes.length,
+        fallbackModel: data.fallbackModel,
+        usage: data.usage,
+        provenance: data.audit?.provenance,
+        createdAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      if (!isCancelledError(error)) console.error('Error generating report:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
+
+  /**
+   * Streams an answer to a question about the whole current exploration,
+   * grounded in its nodes. The server picks the most relevant nodes when the
+   * exploration is large; the answer cites the nodes it draws on.
+   *
+   * @param question - The question to answer
+   * @param onAnswer - Called with the answer so far, its citations resolved to node IDs
+   * @returns The complete answer
+   * @throws AiError when the request fails
+   */
+  const streamExplorationAnswer = async (
+    question: string,
+    onAnswer: (answer: ExplorationAnswer) => void
+  ): Promise<ExplorationAnswer> => {
+    const { nodes, nodeIds } = getOutlineNodes(MAX_ASK_NODES);
+    const controller = beginRequest();
+    const ensureCurrent = createResponseGuard();
+    const explorationId = useExplorationStore.getState().currentExplorationId;
+    
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/ask`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          question,
+          nodes,
+          provider: getExplorationProvider(),
+          template: getExplorationTemplate(),
+        }),
+        signal: controller.signal,
+      });
+      
+      if (!response.ok || !response.body) {
+        throw await responseError(response);
       }
+      
+      let answer: ExplorationAnswer = { question, text: '', citations: {} };
+      await readSseStream(response.body, ({ event, data }) => {
+        ensureCurrent();
+        const payload = JSON.parse(data);
+        
+        if (event === 'answer') {
+          // Link citations as they stream in; the final event narrows them to the nodes the answer was grounded in
+          const refs = Array.from((payload.text as string).matchAll(/\[(n\d+)\]/g), (match) => match[1]);
+          answer = { question, text: payload.text, citations: resolveCitations(refs, nodeIds) };
+          onAnswer(answer);
+        } else if (event === 'done') {
+          answer = {
+            question,
+            text: payload.text,
+            citations: resolveCitations(payload.citations ?? [], nodeIds),
+            fallbackModel: payload.fallbackModel,
+            provenance: payload.audit?.provenance,
+          };
+          onAnswer(answer);
+          recordResponse(explorationId, payload.usage, payload.audit);
+        } else if (event === 'error') {
+          throw AiError.fromBody(payload, 'The answer stream failed');
+        }
+      });
+      
+      return answer;
+    } catch (error) {
+      controller.abort();
+      if (!isCancelledError(error)) console.error('Error answering exploration question:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
 
+  /**
+   * Generates a short title for an exploration from its first question and
+   * answer and the topics explored since. The title is only returned; the
+   * caller decides whether to apply it.
+   *
+   * @param explorationId - Exploration to name; it need not be the current one
+   * @returns The title, and which model generated it and how
+   * @throws AiError when the request fails or nothing has been asked yet
+   */
+  const generateTitle = async (explorationId: string): Promise<NodeGenerationInfo & { title: string }> => {
+    const state = useExplorationStore.getState();
+    const exploration = state.explorations[explorationId];
+    // The current exploration's nodes are most up to date in the store itself
+    const nodes = explorationId === state.currentExplorationId ? state.nodes : exploration?.nodes ?? {};
+    const explored = Object.values(nodes).filter((node) => node.question);
+    const root = explored.find((node) => node.type === 'explore') ?? explored[0];
+    
+    if (!exploration || !root?.question) {
+      throw new AiError('invalid_request', 'Ask a question before generating a title');
+    }
+    
+    const controller = beginRequest();
+    
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/title`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          question: root.question,
+          answer: root.content,
+          topics: explored.filter((node) => node !== root).map((node) => node.title),
+          provider: exploration.provider,
+        }),
+        signal: controller.signal,
+      });
+      
+      if (!response.ok) {
+        throw await responseError(response);
+      }
+      
       const data = await response.json();
       
-      // Validate the response structure
-      if (!data || !data.answer || !Array.isArray(data.branches)) {
-        console.error('Invalid response structure:', data);
-        throw new Error('Invalid response structure from API');
+      if (typeof data?.title !== 'string' || !data.title.trim()) {
+        throw new AiError('invalid_output', 'Invalid response structure from API');
       }
       
-      // Create branch nodes from suggestions
-      const branches = (data.branches || []).map((branch: Branch, index: number) => ({
-        id: uuidv4(),
-        title: branch.title || 'Explore this idea',
-        content: branch.description || 'No description available',
-        type: 'branch' as const,
-        position: calculatePosition(),
-        size: DEFAULT_NODE_SIZE,
-      }));
-
-      setIsLoading(false);
-      return { answer: data.answer, branches };
+      recordResponse(explorationId, data.usage, data.audit);
+      return {
+        title: data.title.trim(),
+        fallbackModel: data.fallbackModel,
+        usage: data.usage,
+        provenance: data.audit?.provenance,
+      };
     } catch (error) {
-      console.error('Error generating ideas:', error);
-      setIsLoading(false);
-      
-      // Create fallback branches for error cases
-      const fallbackBranches = [
-        {
-          id: uuidv4(),
-          title: 'Try again',
-          content: 'Sometimes the AI needs another attempt',
-          type: 'branch' as const,
-          position: calculatePosition(),
-          size: DEFAULT_NODE_SIZE,
-        },
-        {
-          id: uuidv4(),
-          title: 'Rephrase your question',
-          content: 'Try asking in a different way',
-          type: 'branch' as const,
-          position: calculatePosition(),
-          size: DEFAULT_NODE_SIZE,
-        },
-        {
-          id: uuidv4(),
-          title: 'Check your connection',
-          content: 'Make sure you have internet access',
-          type: 'branch' as const,
-          position: calculatePosition(),
-          size: DEFAULT_NODE_SIZE,
-        },
-      ];
-      
-      return { 
-        answer: "Sorry, I couldn't generate ideas at this time. Please try again or rephrase your question.", 
-        branches: fallbackBranches
+      if (!isCancelledError(error)) console.error('Error generating title:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
+
+  /**
+   * Combines several nodes into one new insight that connects them. The
+   * insight is only returned; the caller adds it to the canvas.
+   *
+   * @param nodeIds - Nodes to combine, in the order the user picked them
+   * @returns The insight, and which model generated it and how
+   * @throws AiError when the request fails or fewer than two of the nodes exist
+   */
+  const synthesizeNodes = async (nodeIds: string[]): Promise<NodeGenerationInfo & { synthesis: SynthesisResponse }> => {
+    const { nodes, getAncestorPath } = useExplorationStore.getState();
+    const sources = nodeIds
+      .map((nodeId) => nodes[nodeId])
+      .filter((node): node is Node => !!node)
+      .slice(0, MAX_SYNTHESIS_SOURCES);
+    
+    if (sources.length < MIN_SYNTHESIS_SOURCES) {
+      throw new AiError('invalid_request', `Select at least ${MIN_SYNTHESIS_SOURCES} nodes to combine`);
+    }
+    
+    const controller = beginRequest();
+    const ensureCurrent = createResponseGuard();
+    const explorationId = useExplorationStore.getState().currentExplorationId;
+    
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/synthesize`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          sources: sources.map(toAncestorContext),
+          question: getAncestorPath(sources[0].id)[0]?.question,
+          provider: getExplorationProvider(),
+          template: getExplorationTemplate(),
+        }),
+        signal: controller.signal,
+      });
+      
+      if (!response.ok) {
+        throw await responseError(response);
+      }
+      
+      const data = await response.json();
+      ensureCurrent();
+      
+      if (!data?.synthesis?.title || !data.synthesis.insight) {
+        throw new AiError('invalid_output', 'Invalid response structure from API');
+      }
+      
+      recordResponse(explorationId, data.usage, data.audit);
+      return {
+        synthesis: data.synthesis as SynthesisResponse,
+        fallbackModel: data.fallbackModel,
+        usage: data.usage,
+        provenance: data.audit?.provenance,
       };
+    } catch (error) {
+      if (!isCancelledError(error)) console.error('Error synthesizing nodes:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
     }
   };
 
-  const calculatePosition = () => {
-    return {
-      x: 0,
-      y: 0
-    };
+  /**
+   * Looks across the current exploration for nodes in different branches that
+   * relate to each other. Links the exploration already has are not suggested
+   * again. The links are only returned; the caller decides which to keep.
+   *
+   * @returns The suggested links between node IDs, and which model found them and how
+   * @throws AiError when the request fails or the tree is too small to compare branches
+   */
+  const findCrossLinks = async (): Promise<NodeGenerationInfo & { links: CrossLink[] }> => {
+    const { explorations, currentExplorationId } = useExplorationStore.getState();
+    const { nodes, nodeIds } = getOutlineNodes(MAX_REPORT_NODES);
+    
+    if (nodes.length < MIN_CROSS_LINK_NODES) {
+      throw new AiError('invalid_request', 'Explore a few more branches before looking for connections');
+    }
+    
+    const refs = new Map(Array.from(nodeIds, ([ref, nodeId]) => [nodeId, ref]));
+    const linked = ((currentExplorationId && explorations[currentExplorationId]?.crossLinks) || [])
+      .filter((link) => refs.has(link.source) && refs.has(link.target))
+      .map((link) => [refs.get(link.source)!, refs.get(link.target)!]);
+    
+    const controller = beginRequest();
+    const ensureCurrent = createResponseGuard();
+    
+    try {
+      const response = await fetch(`${AI_API_BASE_URL}/cross-links`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+          title: (currentExplorationId && explorations[currentExplorationId]?.title) || nodes[0].title,
+          nodes,
+          linked,
+          provider: getExplorationProvider(),
+        }),
+        signal: controller.signal,
+      });
+      
+      if (!response.ok) {
+        throw await responseError(response);
+      }
+      
+      const data = await response.json();
+      ensureCurrent();
+      
+      if (!Array.isArray(data?.links)) {
+        throw new AiError('invalid_output', 'Invalid response structure from API');
+      }
+      
+      recordResponse(currentExplorationId, data.usage, data.audit);
+      return {
+        links: (data.links as CrossLinkResponseItem[])
+          .filter((link) => nodeIds.has(link.source) && nodeIds.has(link.target))
+          .map((link) => ({
+            source: nodeIds.get(link.source)!,
+            target: nodeIds.get(link.target)!,
+            relation: link.relation,
+            reason: link.reason,
+          })),
+        fallbackModel: data.fallbackModel,
+        usage: data.usage,
+        provenance: data.audit?.provenance,
+      };
+    } catch (error) {
+      if (!isCancelledError(error)) console.error('Error finding cross-links:', error);
+      throw toAiError(error);
+    } finally {
+      endRequest(controller);
+    }
   };
 
-  return { generateIdeas, isLoading };
-} 
\ No newline at end of file
+  return {
+    streamIdeas,
+    streamChat,
+    generateBranch,
+    generateReport,
+    streamExplorationAnswer,
+    generateTitle,
+    synthesizeNodes,
+    findCrossLinks,
+    getQuotaStatus,
+    cancel,
+    isLoading,
+  };
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MonthlyUsage } from '@/types';
+import { firestoreService } from '@/services/firestore';
+
+/**
+ * Loads a user's recorded AI usage for the last `months` calendar months.
+ * Months without usage are filled in with zeros so charts have no gaps.
+ *
+ * @param userId - The signed-in user, or undefined while auth is loading
+ * @param months - Number of months to return, ending with the current one
+ */
+export function useMonthlyUsage(userId: string | undefined, months: number = 12) {
+  const [usage, setUsage] = useState<MonthlyUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    firestoreService.getMonthlyUsage(userId, months)
+      .then((recorded) => {
+        if (cancelled) return;
+
+        const byMonth = new Map(recorded.map((entry) => [entry.month, entry]));
+        const now = new Date();
+        const filled = Array.from({ length: months }, (_, index) => {
+          const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1 - index), 1));
+          const month = date.toISOString().slice(0, 7);
+          return byMonth.get(month) ?? { month, calls: 0, promptTokens: 0, outputTokens: 0, models: {} };
+        });
+        setUsage(filled);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError : new Error(String(loadError)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, months]);
+
+  return { usage, isLoading, error };
+}
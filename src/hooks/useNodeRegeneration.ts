@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { Branch, Node } from '@/types';
+import { useExplorationStore } from '@/store/explorationStore';
+import { useGemini } from './useGemini';
+import { AiError, toAiError } from '@/lib/ai/errors';
+
+/**
+ * Regenerates a node's answer or a single branch, keeping the previous
+ * result as a version on the node that can be switched back to.
+ *
+ * @param node - The node to regenerate
+ */
+export function useNodeRegeneration(node: Node) {
+  const [error, setError] = useState<AiError | null>(null);
+  const { updateNodeContent, addNodeVersion, getAncestorPath, getParentNodes, currentExplorationId } = useExplorationStore();
+  const { streamIdeas, generateBranch, synthesizeNodes, cancel, isLoading } = useGemini();
+
+  // Cancellation is not an error worth showing, and nothing is restored after an exploration switch
+  const handleError = (error: unknown, restore?: () => void) => {
+    if (useExplorationStore.getState().currentExplorationId !== currentExplorationId) return;
+
+    restore?.();
+    const aiError = toAiError(error);
+    if (aiError.code !== 'cancelled') {
+      console.error('Error regenerating node:', error);
+      setError(aiError);
+    }
+  };
+
+  /**
+   * Streams a new answer into the node. The new branches replace the old ones
+   * only once the answer is complete, taking over their positions.
+   */
+  const regenerateAnswer = async (): Promise<void> => {
+    if (!node.question) return;
+
+    const previousContent = node.content;
+    const path = getAncestorPath(node.id);
+    // Send the context the answer was first asked with: a branch explored in a mode
+    // sends its own path, a follow-up question its parent's, a root question none
+    const contextNodeId = node.mode ? node.id : path.length > 1 ? path[path.length - 2].id : undefined;
+    // The branch was explored from its description, not from the answer being replaced;
+    // nodes explored before descriptions were kept send their title alone
+    const contextNodeContent = node.mode ? node.description ?? '' : undefined;
+    const branches: Branch[] = [];
+    let answer = '';
+
+    setError(null);
+
+    try {
+      // Mode answers were asked with the branch title; the server rebuilds the templated question
+      const generation = await streamIdeas(node.mode ? node.title : node.question, {
+        onAnswer: (text) => {
+          answer = text;
+          updateNodeContent(node.id, text);
+        },
+        onBranch: (branchNode, index) => {
+          branches[index] = { title: branchNode.title, description: branchNode.content };
+        },
+        onBranchesDiscarded: () => {
+          branches.length = 0;
+        },
+      }, { nodeId: contextNodeId, nodeContent: contextNodeContent, mode: node.mode, bypassCache: true });
+
+      // Put the old answer back first so it is what gets kept as the previous version
+      updateNodeContent(node.id, previousContent);
+      addNodeVersion(node.id, { title: node.title, content: answer, branches: branches.filter(Boolean), ...generation });
+    } catch (error) {
+      handleError(error, () => updateNodeContent(node.id, previousContent));
+    }
+  };
+
+  /**
+   * Replaces this branch with a new suggestion for the same parent question
+   */
+  const regenerateBranch = async (): Promise<void> => {
+    setError(null);
+
+    try {
+      const { branch, ...generation } = await generateBranch(node.id);
+      addNodeVersion(node.id, { title: branch.title, content: branch.description, branches: [], ...generation });
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  /**
+   * Combines the nodes this synthesized node was made from into a new insight
+   */
+  const regenerateSynthesis = async (): Promise<void> => {
+    setError(null);
+
+    try {
+      const { synthesis, ...generation } = await synthesizeNodes(getParentNodes(node.id).map((parent) => parent.id));
+      addNodeVersion(node.id, { title: synthesis.title, content: synthesis.insight, branches: [], ...generation });
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  return {
+    regenerateAnswer,
+    regenerateBranch,
+    regenerateSynthesis,
+    cancel,
+    isRegenerating: isLoading,
+    error,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,164 @@
+import { OutlineNode } from '@/lib/ai/report';
+import { formatDataBlock } from '@/lib/ai/sanitize';
+import {
+  CustomTemplateRequest,
+  PROMPT_TEMPLATES,
+  RenderedPrompt,
+  renderCustomStyle,
+  renderPromptTemplate,
+} from '@/lib/ai/templates';
+
+/** Approximate number of prompt tokens the exploration notes may use */
+export const ASK_TOKEN_BUDGET = 6000;
+
+/** Most nodes accepted from the client; relevance picks the ones sent to the model */
+export const MAX_ASK_NODES = 500;
+
+// Characters kept from one node's answer in the notes
+const MAX_NOTE_CONTENT_LENGTH = 1500;
+
+// BM25 parameters: term frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+  'out', 'has', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'who', 'did', 'does', 'what', 'when',
+  'where', 'which', 'why', 'with', 'that', 'this', 'from', 'they', 'them', 'then', 'than', 'there', 'their',
+  'have', 'been', 'were', 'will', 'would', 'could', 'should', 'about', 'into', 'more', 'most', 'some',
+  'such', 'also', 'each', 'other', 'these', 'those', 'very', 'just', 'only', 'over', 'between',
+]);
+
+// Rough token estimate (~4 characters per token for English text)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}...` : text;
+
+// Lower-cased words of three or more letters or digits, without stop words
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+
+// A node's searchable text; the title counts twice since it names the topic
+const getSearchText = (node: OutlineNode): string =>
+  [node.title, node.title, node.question ?? '', node.content].join(' ');
+
+const formatNote = (node: OutlineNode): string => {
+  const lines = [`[${node.ref}] Topic: ${node.title || node.question}`];
+  if (node.question) lines.push(`Question: ${node.question}`);
+  if (node.content) lines.push(`${node.question ? 'Answer' : 'Not explored yet'}: ${truncate(node.content, MAX_NOTE_CONTENT_LENGTH)}`);
+  return lines.join('\n');
+};
+
+/**
+ * Scores each node's relevance to a question with BM25 over its title,
+ * question and answer
+ *
+ * @param question - The question being asked
+ * @param nodes - Candidate nodes
+ * @returns One score per node, in the same order; 0 when no word matches
+ */
+export function scoreNodeRelevance(question: string, nodes: OutlineNode[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  const documents = nodes.map((node) => tokenize(getSearchText(node)));
+  if (queryTerms.length === 0 || documents.length === 0) return nodes.map(() => 0);
+
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+  const documentFrequency = new Map(queryTerms.map((term) => [
+    term,
+    documents.filter((terms) => terms.includes(term)).length,
+  ]));
+
+  return documents.map((terms) => queryTerms.reduce((score, term) => {
+    const frequency = terms.filter((word) => word === term).length;
+    if (frequency === 0) return score;
+
+    const matching = documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (documents.length - matching + 0.5) / (matching + 0.5));
+    const lengthNorm = 1 - BM25_B + BM25_B * (terms.length / averageLength);
+    return score + idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+  }, 0));
+}
+
+/**
+ * Picks the nodes the answer is grounded in. Small explorations are sent
+ * whole; larger ones are cut down to the nodes most relevant to the
+ * question that fit the token budget, always keeping the first root.
+ *
+ * @param question - The question being asked
+ * @param nodes - All nodes sent by the client, in tree order
+ * @param tokenBudget - Approximate maximum size of the notes
+ * @returns The chosen nodes, in tree order
+ */
+export function selectGroundingNodes(
+  question: string,
+  nodes: OutlineNode[],
+  tokenBudget: number = ASK_TOKEN_BUDGET
+): OutlineNode[] {
+  const sizes = nodes.map((node) => estimateTokens(formatNote(node)));
+  if (sizes.reduce((sum, size) => sum + size, 0) <= tokenBudget) return nodes;
+
+  const scores = scoreNodeRelevance(question, nodes);
+  const ranked = nodes
+    .map((_, index) => index)
+    .filter((index) => index === 0 || scores[index] > 0)
+    .sort((a, b) => (a === 0 ? -1 : b === 0 ? 1 : scores[b] - scores[a]));
+
+  const chosen = new Set<number>();
+  let remaining = tokenBudget;
+  for (const index of ranked) {
+    if (sizes[index] > remaining) continue;
+    chosen.add(index);
+    remaining -= sizes[index];
+  }
+
+  return nodes.filter((_, index) => chosen.has(index));
+}
+
+/**
+ * Renders the chosen nodes as the notes the answer is grounded in
+ *
+ * @param notes - Nodes chosen by selectGroundingNodes
+ */
+export const formatAskNotes = (notes: OutlineNode[]): string => notes.map(formatNote).join('\n\n');
+
+/**
+ * Builds the prompt for a question answered from an exploration. The
+ * question and the chosen nodes go in data blocks of the user message.
+ *
+ * @param question - The user's question
+ * @param notes - Nodes chosen by selectGroundingNodes
+ * @param totalNodes - Nodes in the exploration, to tell the model when it sees only some
+ * @param customTemplate - The user's template chosen for the exploration, if any
+ */
+export function buildAskPrompt(
+  question: string,
+  notes: OutlineNode[],
+  totalNodes: number,
+  customTemplate?: CustomTemplateRequest
+): RenderedPrompt {
+  const coverage = notes.length < totalNodes
+    ? `: the ${notes.length} of its ${totalNodes} topics most relevant to the question`
+    : '';
+
+  return renderPromptTemplate(PROMPT_TEMPLATES.askExploration, {
+    question: formatDataBlock('question', question),
+    notes: formatDataBlock('exploration_notes', formatAskNotes(notes)),
+    coverage,
+    style: renderCustomStyle(customTemplate, { question: 'the question in the <question> block' }),
+  });
+}
+
+/**
+ * Finds the node references an answer cites, e.g. `[n3]`
+ *
+ * @param text - The model's answer
+ * @param notes - The nodes the answer was grounded in; citations of any other reference are dropped
+ * @returns Cited references, in order of first citation
+ */
+export function extractCitations(text: string, notes: OutlineNode[]): string[] {
+  const refs = new Set(notes.map((node) => node.ref));
+  const cited = Array.from(text.matchAll(/\[(n\d+)\]/g), (match) => match[1]);
+  return Array.from(new Set(cited)).filter((ref) => refs.has(ref));
+}
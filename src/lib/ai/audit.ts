@@ -0,0 +1,85 @@
+import { createHash, randomUUID } from 'crypto';
+import { AiAuditEntry, AiCallKind, ExploreMode, ExploreOptions } from '@/types';
+import { AiProvider } from '@/lib/ai/providers';
+import { CustomTemplateRequest, PromptTemplate, getTemplateVersion } from '@/lib/ai/templates';
+import { logAiEvent } from '@/lib/ai/log';
+
+/**
+ * Hashes the ancestor context a prompt was built from, so answers generated
+ * from the same path can be recognised without storing the path again
+ */
+export const hashContext = (contextText: string): string =>
+  createHash('sha256').update(contextText).digest('hex');
+
+/**
+ * Everything recorded about one completed AI call
+ */
+interface AiCallDetails {
+  kind: AiCallKind;
+  provider: AiProvider;
+  /** Model that answered */
+  model: string;
+  /** Built-in template the prompt was rendered from */
+  template: PromptTemplate;
+  /** Custom template the user applied on top, if any */
+  customTemplate?: CustomTemplateRequest;
+  /** Rendered ancestor path the prompt was built from */
+  contextText: string;
+  mode?: ExploreMode;
+  options?: ExploreOptions;
+  systemInstruction?: string;
+  prompt: string;
+  /** Raw model output */
+  response: string;
+  repaired?: boolean;
+  cached?: boolean;
+  /** When the request started, in milliseconds since the epoch */
+  startedAt: number;
+}
+
+/**
+ * Builds the audit entry returned to the client for a completed call, and
+ * logs a summary of it (without the prompt and response text)
+ *
+ * @param details - The call's inputs and output
+ * @returns The entry; its `provenance` is stored with the generated answer
+ */
+export function auditAiCall(details: AiCallDetails): AiAuditEntry {
+  const { customTemplate } = details;
+  const entry: AiAuditEntry = {
+    kind: details.kind,
+    provenance: {
+      requestId: randomUUID(),
+      provider: details.provider.id,
+      model: details.model,
+      templateVersion: getTemplateVersion(details.template),
+      ...(customTemplate
+        ? { customTemplate: { id: customTemplate.id, name: customTemplate.name, version: customTemplate.version } }
+        : {}),
+      ...(details.mode ? { mode: details.mode } : {}),
+      ...(details.options ? { options: details.options } : {}),
+      contextHash: hashContext(details.contextText),
+      ...(details.cached ? { cached: true } : {}),
+      createdAt: new Date().toISOString(),
+    },
+    ...(details.systemInstruction ? { systemInstruction: details.systemInstruction } : {}),
+    prompt: details.prompt,
+    response: details.response,
+    ...(details.repaired ? { repaired: true } : {}),
+    durationMs: Date.now() - details.startedAt,
+  };
+
+  logAiEvent('INFO', 'ai.call', {
+    requestId: entry.provenance.requestId,
+    kind: entry.kind,
+    provider: entry.provenance.provider,
+    model: entry.provenance.model,
+    templateVersion: entry.provenance.templateVersion,
+    customTemplate: customTemplate ? `${customTemplate.id}@${customTemplate.version}` : undefined,
+    cached: !!details.cached,
+    repaired: !!details.repaired,
+    durationMs: entry.durationMs,
+  });
+
+  return entry;
+}
@@ -0,0 +1,26 @@
+import { adminAuth } from '@/lib/firebase-admin';
+import { AiError } from '@/lib/ai/errors';
+
+/**
+ * Verifies the Firebase ID token sent as `Authorization: Bearer <token>`
+ *
+ * @param request - Incoming AI route request
+ * @returns The signed-in user's uid
+ * @throws AiError `unauthenticated` when the token is missing, invalid or expired
+ */
+export async function getRequestUserId(request: Request): Promise<string> {
+  const header = request.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+
+  if (!match) {
+    throw new AiError('unauthenticated', 'A Firebase ID token is required');
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(match[1]);
+    return decoded.uid;
+  } catch (error) {
+    console.warn('Rejected AI request with an invalid ID token:', error instanceof Error ? error.message : error);
+    throw new AiError('unauthenticated', 'The Firebase ID token is invalid or expired');
+  }
+}
@@ -0,0 +1,90 @@
+import { Branch, ExploreOptions } from '@/types';
+import { describeReadingLevel } from '@/lib/ai/options';
+import { MAX_DESCRIPTION_LENGTH, MAX_TITLE_LENGTH, formatDataBlock, sanitizeText } from '@/lib/ai/sanitize';
+import {
+  CustomTemplateRequest,
+  PROMPT_TEMPLATES,
+  RenderedPrompt,
+  renderCustomStyle,
+  renderPromptTemplate,
+} from '@/lib/ai/templates';
+
+// Most sibling branches accepted from the client
+const MAX_SIBLINGS = 20;
+
+/**
+ * Validates a single branch from a request body
+ *
+ * @param value - Untrusted value from the request body
+ * @returns The branch, or undefined when it is malformed
+ */
+export function normalizeBranch(value: unknown): Branch | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const { title, description } = value as Record<string, unknown>;
+  const cleanTitle = typeof title === 'string' ? sanitizeText(title, MAX_TITLE_LENGTH) : '';
+  if (!cleanTitle) return undefined;
+
+  return {
+    title: cleanTitle,
+    description: typeof description === 'string' ? sanitizeText(description, MAX_DESCRIPTION_LENGTH) : '',
+  };
+}
+
+/**
+ * Validates a list of branches from a request body, dropping malformed entries
+ *
+ * @param value - Untrusted value from the request body
+ */
+export function normalizeBranches(value: unknown): Branch[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map(normalizeBranch)
+    .filter((branch): branch is Branch => !!branch)
+    .slice(0, MAX_SIBLINGS);
+}
+
+/**
+ * Builds the prompt for replacing one weak branch of an answer. The question,
+ * path and branches go in data blocks of the user message.
+ *
+ * @param question - The question the branch belongs to
+ * @param contextText - Rendered ancestor path of the question
+ * @param replaced - The branch being replaced
+ * @param siblings - The other branches of the same answer, which must not be repeated
+ * @param options - Answer options, for the reading level
+ * @param customTemplate - The user's template chosen for the exploration, if any
+ */
+export function buildBranchPrompt(
+  question: string,
+  contextText: string,
+  replaced: Branch,
+  siblings: Branch[],
+  options: ExploreOptions,
+  customTemplate?: CustomTemplateRequest
+): RenderedPrompt {
+  const pathNote = contextText ? `
+The question is part of a larger exploration. The <exploration_path> block
+leads from the original question down to it; keep the new subtopic relevant
+to that path.
+` : '';
+
+  const siblingList = siblings.length > 0
+    ? siblings.map((branch) => `- ${branch.title}: ${branch.description}`).join('\n')
+    : '- (none)';
+
+  return renderPromptTemplate(PROMPT_TEMPLATES.regenerateBranch, {
+    question: formatDataBlock('question', question),
+    pathNote,
+    context: contextText ? `${formatDataBlock('exploration_path', contextText)}\n\n` : '',
+    style: renderCustomStyle(customTemplate, {
+      question: 'the question in the <question> block',
+      answerLength: options.answerLength,
+      readingLevel: options.readingLevel,
+    }),
+    replaced: formatDataBlock('replaced_subtopic', `${replaced.title}: ${replaced.description}`),
+    siblings: formatDataBlock('kept_subtopics', siblingList),
+    readingLevel: describeReadingLevel(options.readingLevel),
+  });
+}
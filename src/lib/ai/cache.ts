@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+
+/** Firestore collection used by the production cache backend */
+export const AI_CACHE_COLLECTION = 'aiCache';
+
+// How long a cached response is served, configurable per deployment
+const CACHE_TTL_MS = Number(process.env.AI_CACHE_TTL_SECONDS ?? 24 * 60 * 60) * 1000;
+
+// Bound on the in-memory backend so a long-running dev server does not grow forever
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Storage for generated responses, keyed by a hash of everything that
+ * determines the model output
+ */
+export interface AiResponseCache {
+  /** Backend name used in logs */
+  label: string;
+  /** Returns the cached value, or undefined when missing or expired */
+  get: (key: string) => Promise<string | undefined>;
+  /** Stores a value for `ttlMs` milliseconds */
+  set: (key: string, value: string, ttlMs: number) => Promise<void>;
+}
+
+const memoryEntries = new Map<string, { value: string; expiresAt: number }>();
+
+/**
+ * Process-local cache for development. Entries are lost on restart and are
+ * not shared between server instances.
+ */
+export const memoryCache: AiResponseCache = {
+  label: 'memory',
+  get: async (key) => {
+    const entry = memoryEntries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      memoryEntries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  },
+  set: async (key, value, ttlMs) => {
+    // Maps keep insertion order, so the first key is the oldest entry
+    if (memoryEntries.size >= MEMORY_CACHE_MAX_ENTRIES && !memoryEntries.has(key)) {
+      const oldest = memoryEntries.keys().next().value;
+      if (oldest !== undefined) memoryEntries.delete(oldest);
+    }
+    memoryEntries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  },
+};
+
+/**
+ * Cache shared by every function instance. Expired documents are ignored on
+ * read; the TTL policy on `expiresAt` in firestore.indexes.json deletes them
+ * eventually, once deployed.
+ */
+export const firestoreCache: AiResponseCache = {
+  label: 'firestore',
+  get: async (key) => {
+    const snapshot = await adminDb.collection(AI_CACHE_COLLECTION).doc(key).get();
+    const data = snapshot.data();
+
+    if (!data || !(data.expiresAt instanceof Timestamp) || data.expiresAt.toMillis() <= Date.now()) {
+      return undefined;
+    }
+    return typeof data.value === 'string' ? data.value : undefined;
+  },
+  set: async (key, value, ttlMs) => {
+    await adminDb.collection(AI_CACHE_COLLECTION).doc(key).set({
+      value,
+      createdAt: Timestamp.now(),
+      expiresAt: Timestamp.fromMillis(Date.now() + ttlMs),
+    });
+  },
+};
+
+/**
+ * Cache backend selected with AI_CACHE_BACKEND (`memory`, `firestore` or
+ * `none`). Defaults to Firestore in production and memory elsewhere.
+ *
+ * @returns The backend, or null when caching is disabled
+ */
+export const getResponseCache = (): AiResponseCache | null => {
+  const backend = process.env.AI_CACHE_BACKEND
+    || (process.env.NODE_ENV === 'production' ? 'firestore' : 'memory');
+
+  if (backend === 'none' || CACHE_TTL_MS <= 0) return null;
+  return backend === 'firestore' ? firestoreCache : memoryCache;
+};
+
+/**
+ * Normalizes a question so trivial differences in whitespace and case share
+ * a cache entry
+ */
+export const normalizeCachePrompt = (prompt: string): string =>
+  prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Hashes the inputs of a generation into a cache key. Object keys are
+ * sorted so the key does not depend on property order.
+ *
+ * @param parts - Everything that determines the model output
+ * @returns A hex SHA-256 digest, safe to use as a Firestore document id
+ */
+export function createCacheKey(parts: Record<string, unknown>): string {
+  const stable = JSON.stringify(parts, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+  return createHash('sha256').update(stable).digest('hex');
+}
+
+/**
+ * Reads a cached value, treating backend failures as a miss so a cache
+ * outage never breaks generation
+ */
+export async function readCache(cache: AiResponseCache, key: string): Promise<string | undefined> {
+  try {
+    return await cache.get(key);
+  } catch (error) {
+    console.warn(`AI ${cache.label} cache read failed:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Stores a value with the configured TTL, logging rather than throwing on failure
+ */
+export async function writeCache(cache: AiResponseCache, key: string, value: string): Promise<void> {
+  try {
+    await cache.set(key, value, CACHE_TTL_MS);
+  } catch (error) {
+    console.warn(`AI ${cache.label} cache write failed:`, error);
+  }
+}
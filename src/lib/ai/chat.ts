@@ -0,0 +1,110 @@
+import { ChatTurn } from '@/types';
+import {
+  CustomTemplateRequest,
+  PROMPT_TEMPLATES,
+  RenderedPrompt,
+  renderCustomStyle,
+  renderPromptTemplate,
+} from '@/lib/ai/templates';
+import { MAX_CONTENT_LENGTH, formatDataBlock, sanitizeText } from '@/lib/ai/sanitize';
+
+/** Approximate number of prompt tokens the conversation history may use */
+export const THREAD_TOKEN_BUDGET = 2000;
+
+// Most turns accepted from the client; older ones are dropped
+const MAX_THREAD_TURNS = 50;
+
+// Rough token estimate (~4 characters per token for English text)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** A conversation turn as sent to the chat route */
+export type ThreadMessage = Pick<ChatTurn, 'role' | 'content'>;
+
+/**
+ * Validates the `thread` field of a request body, dropping malformed turns
+ * and cleaning the text of the others
+ *
+ * @param value - Untrusted value from the request body
+ * @returns Well-formed turns, oldest first
+ */
+export function normalizeThread(value: unknown): ThreadMessage[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((turn): turn is Record<string, unknown> => !!turn && typeof turn === 'object')
+    .filter((turn) => (turn.role === 'user' || turn.role === 'model') && typeof turn.content === 'string')
+    .map((turn) => ({
+      role: turn.role as ThreadMessage['role'],
+      content: sanitizeText(turn.content as string, MAX_CONTENT_LENGTH),
+    }))
+    .filter((turn) => turn.content)
+    .slice(-MAX_THREAD_TURNS);
+}
+
+/**
+ * Renders the conversation so far as a transcript, keeping the most recent
+ * turns that fit in the token budget
+ *
+ * @param thread - Previous turns, oldest first
+ * @param tokenBudget - Approximate maximum size of the transcript
+ */
+export function buildThreadTranscript(
+  thread: ThreadMessage[],
+  tokenBudget: number = THREAD_TOKEN_BUDGET
+): string {
+  const lines: string[] = [];
+  let remaining = tokenBudget;
+  let omitted = 0;
+
+  for (let i = thread.length - 1; i >= 0; i--) {
+    const line = `${thread[i].role === 'user' ? 'User' : 'Assistant'}: ${thread[i].content}`;
+    if (omitted === 0 && estimateTokens(line) <= remaining) {
+      lines.unshift(line);
+      remaining -= estimateTokens(line);
+    } else {
+      omitted++;
+    }
+  }
+
+  if (omitted > 0) {
+    lines.unshift(`... (${omitted} earlier message${omitted === 1 ? '' : 's'} omitted)`);
+  }
+
+  return lines.join('\n\n');
+}
+
+/**
+ * Builds the prompt for the next reply in a node's conversation. The message,
+ * path and earlier turns go in data blocks of the user message.
+ *
+ * @param message - The user's new message
+ * @param thread - Previous turns, oldest first
+ * @param contextText - Rendered path from the root question to the node
+ * @param customTemplate - The user's template chosen for the exploration, if any
+ */
+export function buildChatPrompt(
+  message: string,
+  thread: ThreadMessage[],
+  contextText: string,
+  customTemplate?: CustomTemplateRequest
+): RenderedPrompt {
+  const pathNote = contextText ? `
+The conversation is about one topic within a larger exploration. The
+<exploration_path> block leads from the original question down to that topic;
+the last entry is the topic being discussed.
+` : '';
+
+  const transcript = buildThreadTranscript(thread);
+  const historyNote = transcript ? `
+The <conversation> block holds the conversation so far.
+` : '';
+
+  return renderPromptTemplate(PROMPT_TEMPLATES.chatReply, {
+    message: formatDataBlock('message', message),
+    pathNote,
+    context: contextText ? `${formatDataBlock('exploration_path', contextText)}\n\n` : '',
+    historyNote,
+    history: transcript ? `${formatDataBlock('conversation', transcript)}\n\n` : '',
+    style: renderCustomStyle(customTemplate, { question: 'the message in the <message> block' }),
+  });
+}
@@ -0,0 +1,106 @@
+import { AncestorContext } from '@/types';
+import { MAX_CONTENT_LENGTH, MAX_QUESTION_LENGTH, MAX_TITLE_LENGTH, sanitizeText } from '@/lib/ai/sanitize';
+
+/** Approximate number of prompt tokens the ancestor path may use */
+export const CONTEXT_TOKEN_BUDGET = 1500;
+
+// Longest path accepted from the client; anything above is dropped from the middle
+const MAX_ANCESTORS = 30;
+
+// Characters kept from an ancestor's content when it is shown in compact form
+const COMPACT_CONTENT_LENGTH = 160;
+
+// Rough token estimate (~4 characters per token for English text)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}...` : text;
+
+const formatFull = (entry: AncestorContext, step: number): string => {
+  const lines = [`${step}. Topic: ${entry.title}`];
+  if (entry.question) lines.push(`   Question: ${entry.question}`);
+  if (entry.content) lines.push(`   Answer: ${entry.content}`);
+  return lines.join('\n');
+};
+
+const formatCompact = (entry: AncestorContext, step: number): string => {
+  const lines = [`${step}. Topic: ${entry.title}`];
+  if (entry.question) lines.push(`   Question: ${entry.question}`);
+  if (entry.content) lines.push(`   Answer (abridged): ${truncate(entry.content, COMPACT_CONTENT_LENGTH)}`);
+  return lines.join('\n');
+};
+
+/**
+ * Validates the `ancestors` field of a request body, dropping malformed entries.
+ * Titles and answers came from the model, so they are cleaned and shortened
+ * like any other request text.
+ *
+ * @param value - Untrusted value from the request body
+ * @returns Well-formed ancestors, root first
+ */
+export function normalizeAncestors(value: unknown): AncestorContext[] {
+  if (!Array.isArray(value)) return [];
+
+  const ancestors = value
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .map((entry) => ({
+      title: typeof entry.title === 'string' ? sanitizeText(entry.title, MAX_TITLE_LENGTH) : '',
+      question: typeof entry.question === 'string' ? sanitizeText(entry.question, MAX_QUESTION_LENGTH) || undefined : undefined,
+      content: typeof entry.content === 'string' ? sanitizeText(entry.content, MAX_CONTENT_LENGTH) : '',
+    }))
+    .filter((entry) => entry.title || entry.question || entry.content);
+
+  // Keep the root and the nearest ancestors, which matter most for relevance
+  return ancestors.length > MAX_ANCESTORS
+    ? [ancestors[0], ...ancestors.slice(-(MAX_ANCESTORS - 1))]
+    : ancestors;
+}
+
+/**
+ * Renders the path from the root question to the current node as prompt text.
+ *
+ * Ancestors closest to the current node are kept verbatim. Once the token
+ * budget runs low, more distant ones are abridged and finally omitted, but
+ * the root question is always included since it anchors the whole exploration.
+ *
+ * @param ancestors - Path entries, root first and the current node last
+ * @param tokenBudget - Approximate maximum size of the rendered context
+ * @returns Numbered context block, or an empty string when there is no path
+ */
+export function buildAncestorContext(
+  ancestors: AncestorContext[],
+  tokenBudget: number = CONTEXT_TOKEN_BUDGET
+): string {
+  if (ancestors.length === 0) return '';
+
+  const rootEntry = formatCompact(ancestors[0], 1);
+  let remaining = tokenBudget - estimateTokens(rootEntry);
+  const rendered: string[] = new Array(ancestors.length);
+  let omitted = 0;
+
+  // Walk from the current node back towards the root
+  for (let i = ancestors.length - 1; i >= 1; i--) {
+    const full = formatFull(ancestors[i], i + 1);
+    const compact = formatCompact(ancestors[i], i + 1);
+
+    if (omitted === 0 && estimateTokens(full) <= remaining) {
+      rendered[i] = full;
+      remaining -= estimateTokens(full);
+    } else if (omitted === 0 && estimateTokens(compact) <= remaining) {
+      rendered[i] = compact;
+      remaining -= estimateTokens(compact);
+    } else {
+      omitted++;
+    }
+  }
+
+  const rootFull = formatFull(ancestors[0], 1);
+  rendered[0] = estimateTokens(rootFull) - estimateTokens(rootEntry) <= remaining ? rootFull : rootEntry;
+
+  const lines = rendered.filter(Boolean);
+  if (omitted > 0) {
+    lines.splice(1, 0, `   ... (${omitted} intermediate topic${omitted === 1 ? '' : 's'} omitted)`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,115 @@
+import { CrossLinkResponseItem } from '@/types';
+import { OutlineNode, buildReportOutline } from '@/lib/ai/report';
+import { formatDataBlock } from '@/lib/ai/sanitize';
+import { PROMPT_TEMPLATES, RenderedPrompt, renderPromptTemplate } from '@/lib/ai/templates';
+
+/** Approximate number of prompt tokens the outline may use */
+export const CROSS_LINK_TOKEN_BUDGET = 8000;
+
+/** Fewest nodes worth searching; two of them must sit in different branches */
+export const MIN_CROSS_LINK_NODES = 3;
+
+/** Most links suggested in one pass */
+export const MAX_CROSS_LINKS = 8;
+
+// Most already linked pairs accepted from the client
+const MAX_LINKED_PAIRS = 100;
+
+/**
+ * Two node references, e.g. `['n3', 'n9']`
+ */
+export type RefPair = [string, string];
+
+// The same key for a pair whichever way round it is given
+const pairKey = (a: string, b: string): string => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Validates the `linked` field of a request body: pairs of nodes that are
+ * already linked and must not be suggested again
+ *
+ * @param value - Untrusted value from the request body
+ * @param nodes - The outline the references must belong to
+ */
+export function normalizeLinkedPairs(value: unknown, nodes: OutlineNode[]): RefPair[] {
+  if (!Array.isArray(value)) return [];
+
+  const refs = new Set(nodes.map((node) => node.ref));
+  return value
+    .filter((pair): pair is RefPair =>
+      Array.isArray(pair) && pair.length === 2 && refs.has(pair[0]) && refs.has(pair[1])
+    )
+    .slice(0, MAX_LINKED_PAIRS);
+}
+
+/**
+ * Renders the tree as an outline, followed by the pairs that are already linked
+ *
+ * @param title - Title of the exploration
+ * @param nodes - Nodes in depth-first order, as returned by normalizeOutlineNodes
+ * @param linked - Pairs that are already linked
+ */
+export function buildCrossLinkOutline(title: string, nodes: OutlineNode[], linked: RefPair[]): string {
+  const outline = buildReportOutline(title, nodes, CROSS_LINK_TOKEN_BUDGET);
+  if (linked.length === 0) return outline;
+
+  return `${outline}\n\nAlready linked:\n${linked.map(([a, b]) => `- [${a}] and [${b}]`).join('\n')}`;
+}
+
+/**
+ * Builds the prompt for finding related nodes across an exploration. The
+ * outline goes in a data block of the user message.
+ *
+ * @param title - Title of the exploration
+ * @param nodes - Nodes in depth-first order, as returned by normalizeOutlineNodes
+ * @param linked - Pairs that are already linked
+ */
+export function buildCrossLinkPrompt(title: string, nodes: OutlineNode[], linked: RefPair[]): RenderedPrompt {
+  return renderPromptTemplate(PROMPT_TEMPLATES.findCrossLinks, {
+    outline: formatDataBlock('exploration_outline', buildCrossLinkOutline(title, nodes, linked)),
+    maxLinks: String(MAX_CROSS_LINKS),
+  });
+}
+
+/**
+ * Drops suggested links that name a node missing from the outline, join a
+ * node to itself or to one above or below it in the same branch, or repeat a
+ * pair that is already linked or suggested
+ *
+ * @param links - Validated model output
+ * @param nodes - The nodes the links were suggested from
+ * @param linked - Pairs that are already linked
+ * @returns At most MAX_CROSS_LINKS links, in the order the model ranked them
+ */
+export function filterCrossLinks(
+  links: CrossLinkResponseItem[],
+  nodes: OutlineNode[],
+  linked: RefPair[]
+): CrossLinkResponseItem[] {
+  const parents = new Map(nodes.map((node) => [node.ref, node.parentRef]));
+  const seen = new Set(linked.map(([a, b]) => pairKey(a, b)));
+
+  // Parents always come earlier in the outline, so this walk ends at a root
+  const isBelow = (ref: string, ancestor: string): boolean => {
+    for (let current = parents.get(ref); current; current = parents.get(current)) {
+      if (current === ancestor) return true;
+    }
+    return false;
+  };
+
+  return links
+    .map((link) => ({
+      ...link,
+      source: link.source.replace(/^\[|\]$/g, ''),
+      target: link.target.replace(/^\[|\]$/g, ''),
+    }))
+    .filter((link) => {
+      if (!parents.has(link.source) || !parents.has(link.target) || link.source === link.target) return false;
+      if (isBelow(link.source, link.target) || isBelow(link.target, link.source)) return false;
+
+      const key = pairKey(link.source, link.target);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CROSS_LINKS);
+}
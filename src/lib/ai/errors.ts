@@ -0,0 +1,130 @@
+import { AiErrorBody, AiErrorCode } from '@/types';
+import { ProviderError } from '@/lib/ai/providers/types';
+
+// HTTP status returned for each error code
+const STATUS_BY_CODE: Record<AiErrorCode, number> = {
+  invalid_request: 400,
+  unauthenticated: 401,
+  not_configured: 503,
+  quota_exceeded: 429,
+  upstream_unavailable: 502,
+  invalid_output: 502,
+  // Non-standard "client closed request", as used by nginx
+  cancelled: 499,
+  internal_error: 500,
+};
+
+// Short explanations shown in the UI
+const USER_MESSAGES: Record<AiErrorCode, string> = {
+  invalid_request: 'The question could not be sent. Try rephrasing it.',
+  unauthenticated: 'Your session has expired. Sign in again to continue.',
+  not_configured: 'The AI service is not configured for this deployment.',
+  quota_exceeded: 'The AI usage limit has been reached.',
+  upstream_unavailable: 'The AI service is temporarily unavailable.',
+  invalid_output: "The AI returned an answer that couldn't be read.",
+  cancelled: 'Generation was cancelled.',
+  internal_error: 'Something went wrong while generating the answer.',
+};
+
+const RETRYABLE_CODES: AiErrorCode[] = ['upstream_unavailable', 'invalid_output', 'internal_error'];
+
+/**
+ * Error with a stable code, shared by the AI route (to build responses)
+ * and the client (to decide what to show)
+ */
+export class AiError extends Error {
+  readonly code: AiErrorCode;
+  readonly resetAt?: string;
+
+  constructor(code: AiErrorCode, message: string, options: { resetAt?: string } = {}) {
+    super(message);
+    this.name = 'AiError';
+    this.code = code;
+    this.resetAt = options.resetAt;
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+
+  /** Message suitable for showing to the user */
+  get userMessage(): string {
+    return USER_MESSAGES[this.code];
+  }
+
+  toBody(): AiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        retryable: this.retryable,
+        ...(this.resetAt ? { resetAt: this.resetAt } : {}),
+      },
+    };
+  }
+
+  /**
+   * Rebuilds an AiError from a response body, falling back to a generic
+   * error when the body does not follow the contract
+   */
+  static fromBody(body: unknown, fallbackMessage: string): AiError {
+    const error = (body as Partial<AiErrorBody> | null)?.error;
+
+    if (error && typeof error.code === 'string' && error.code in STATUS_BY_CODE) {
+      return new AiError(error.code, error.message || fallbackMessage, { resetAt: error.resetAt });
+    }
+
+    return new AiError('internal_error', fallbackMessage);
+  }
+}
+
+/**
+ * Whether an error only means the request was cancelled, which needs no error message
+ *
+ * @param error - Caught value
+ */
+export const isCancelledError = (error: unknown): boolean =>
+  toAiError(error).code === 'cancelled';
+
+/**
+ * Maps anything thrown while handling a request to an AiError
+ *
+ * @param error - Caught value
+ */
+export function toAiError(error: unknown): AiError {
+  if (error instanceof AiError) return error;
+
+  // fetch and AbortSignal.throwIfAborted reject with an AbortError once cancelled
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new AiError('cancelled', error.message);
+  }
+
+  if (error instanceof ProviderError) {
+    if (error.status === 401 || error.status === 403) {
+      return new AiError('not_configured', error.message);
+    }
+    // A 429 that outlasted the retries is the provider being busy, not the user's own
+    // quota, which only the quota check reports. No status means the upstream answered
+    // but with an unusable body.
+    return new AiError(error.status ? 'upstream_unavailable' : 'invalid_output', error.message);
+  }
+
+  // fetch rejects with a TypeError when the upstream host can't be reached
+  if (error instanceof TypeError) {
+    return new AiError('upstream_unavailable', error.message);
+  }
+
+  return new AiError('internal_error', error instanceof Error ? error.message : 'Unknown error');
+}
+
+/**
+ * Sends an AiError as a JSON response with its matching HTTP status
+ *
+ * @param error - The error to send
+ */
+export const errorResponse = (error: AiError): Response =>
+  Response.json(error.toBody(), { status: error.status });
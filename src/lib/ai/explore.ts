@@ -0,0 +1,58 @@
+import { ExploreOptions } from '@/types';
+import { describeAnswerLength, describeReadingLevel } from '@/lib/ai/options';
+import { formatDataBlock } from '@/lib/ai/sanitize';
+import {
+  CustomTemplateRequest,
+  PROMPT_TEMPLATES,
+  PromptTemplate,
+  RenderedPrompt,
+  formatPromptSection,
+  renderCustomStyle,
+  renderPromptTemplate,
+} from '@/lib/ai/templates';
+
+/**
+ * Builds the prompt sent to the model for a user question, from the root
+ * template for a new exploration and the branch template within one. The
+ * question and the ancestor path go in data blocks of the user message.
+ *
+ * @param prompt - The question to answer
+ * @param contextText - Rendered ancestor path, empty for a root question
+ * @param options - Branch count, answer length and reading level
+ * @param focus - Extra requirements from the exploration mode template, if any
+ * @param customTemplate - The user's template chosen for the exploration, if any
+ * @returns The rendered prompt and the template it was rendered from
+ */
+export function buildExplorePrompt(
+  prompt: string,
+  contextText: string,
+  options: ExploreOptions,
+  focus: string[] = [],
+  customTemplate?: CustomTemplateRequest
+): RenderedPrompt & { template: PromptTemplate } {
+  const { branchCount } = options;
+  const values = {
+    question: formatDataBlock('question', prompt),
+    focus: formatPromptSection('Focus', focus),
+    style: renderCustomStyle(customTemplate, {
+      question: 'the question in the <question> block',
+      answerLength: options.answerLength,
+      readingLevel: options.readingLevel,
+    }),
+    answerLength: describeAnswerLength(options.answerLength),
+    readingLevel: describeReadingLevel(options.readingLevel),
+    branchCount: String(branchCount),
+    subtopicLabel: branchCount === 1 ? 'Subtopic' : 'Subtopics',
+  };
+
+  if (!contextText) {
+    const template = PROMPT_TEMPLATES.exploreRoot;
+    return { ...renderPromptTemplate(template, values), template };
+  }
+
+  const template = PROMPT_TEMPLATES.exploreBranch;
+  return {
+    ...renderPromptTemplate(template, { ...values, context: formatDataBlock('exploration_path', contextText) }),
+    template,
+  };
+}
@@ -0,0 +1,128 @@
+import { TokenUsage } from '@/types';
+import { createSseResponse } from '@/lib/ai/sse';
+import { OutlineNode, normalizeOutlineNodes } from '@/lib/ai/report';
+import { MAX_ASK_NODES, buildAskPrompt, extractCitations, formatAskNotes, selectGroundingNodes } from '@/lib/ai/ask';
+import { AiProvider, GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { streamWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { CustomTemplateRequest, PROMPT_TEMPLATES, normalizeCustomTemplate } from '@/lib/ai/templates';
+import { MAX_QUESTION_LENGTH, stripControlCharacters } from '@/lib/ai/sanitize';
+import { chargeAiCall } from '@/lib/ai/quota';
+
+// Grounded answers are plain text, about as long as a chat reply
+const ASK_MAX_OUTPUT_TOKENS = 1024;
+
+/**
+ * Streams an answer grounded in the exploration to the client as Server-Sent Events.
+ *
+ * Events:
+ * - `answer` `{ text }` - the full answer text generated so far
+ * - `done` `{ text, citations, usage, audit, fallbackModel? }` - the complete answer,
+ *   the node references it cites, its tokens, the audit entry for the call, and
+ *   the fallback model if it answered
+ * - `error` - an AiErrorBody; generation failed and no further events follow
+ *
+ * @param uid - User the answer's tokens are recorded for
+ * @param notes - Nodes the answer is grounded in, for the citations and the audit entry
+ * @param customTemplate - The user's template the prompt was built with, for the audit entry
+ */
+function streamGroundedAnswer(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  uid: string,
+  notes: OutlineNode[],
+  customTemplate?: CustomTemplateRequest
+): Response {
+  const startedAt = Date.now();
+
+  return createSseResponse(generation.signal, async (send, signal) => {
+    let text = '';
+    let usage = EMPTY_TOKEN_USAGE;
+    const onUsage = (callUsage: TokenUsage) => {
+      usage = addTokenUsage(usage, callUsage);
+    };
+
+    const outcome = await streamWithRetry(provider, { ...generation, signal, onUsage }, (chunk) => {
+      text += chunk;
+      send('answer', { text: text.trimStart() });
+    });
+
+    const answer = text.trim();
+    if (!answer) {
+      throw new AiError('invalid_output', `${provider.label} returned an empty answer`);
+    }
+
+    await recordAiUsage(uid, outcome.model, usage);
+    send('done', {
+      text: answer,
+      citations: extractCitations(answer, notes),
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'ask',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.askExploration,
+        customTemplate,
+        contextText: formatAskNotes(notes),
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: text,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  }, (error) => {
+    const aiError = toAiError(error);
+    if (aiError.code !== 'cancelled') {
+      console.error(`Error streaming ${provider.label} grounded answer:`, error);
+    }
+    return aiError.toBody();
+  });
+}
+
+/**
+ * Answers a question from the exploration's own nodes. When the exploration
+ * is too large to send whole, the nodes most relevant to the question are
+ * chosen; the answer cites the nodes it draws on by their `ref`.
+ */
+export async function handleAsk(request: Request): Promise<Response> {
+  try {
+    const {
+      question,
+      nodes: requestedNodes,
+      provider: requestedProvider,
+      template: requestedTemplate,
+    } = await request.json().catch(() => ({}));
+
+    const cleanQuestion = typeof question === 'string' ? stripControlCharacters(question).trim() : '';
+    const nodes = normalizeOutlineNodes(requestedNodes, MAX_ASK_NODES);
+
+    if (!cleanQuestion || nodes.length === 0) {
+      return errorResponse(new AiError('invalid_request', 'A non-empty "question" and the exploration\'s "nodes" are required'));
+    }
+    if (cleanQuestion.length > MAX_QUESTION_LENGTH) {
+      return errorResponse(new AiError('invalid_request', `"question" must be at most ${MAX_QUESTION_LENGTH} characters`));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const uid = await chargeAiCall(request);
+
+    const notes = selectGroundingNodes(cleanQuestion, nodes);
+    const customTemplate = normalizeCustomTemplate(requestedTemplate);
+    const generation: GenerationRequest = {
+      ...buildAskPrompt(cleanQuestion, notes, nodes.length, customTemplate),
+      topic: cleanQuestion,
+      maxOutputTokens: ASK_MAX_OUTPUT_TOKENS,
+      signal: request.signal,
+    };
+
+    return streamGroundedAnswer(provider, generation, uid, notes, customTemplate);
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
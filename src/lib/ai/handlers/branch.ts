@@ -0,0 +1,98 @@
+import { buildAncestorContext, normalizeAncestors } from '@/lib/ai/context';
+import { buildBranchPrompt, normalizeBranch, normalizeBranches } from '@/lib/ai/branch';
+import { normalizeExploreOptions } from '@/lib/ai/options';
+import { GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { chargeAiCall } from '@/lib/ai/quota';
+import { generateWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { PROMPT_TEMPLATES, normalizeCustomTemplate } from '@/lib/ai/templates';
+import { MAX_QUESTION_LENGTH, stripControlCharacters } from '@/lib/ai/sanitize';
+import { BRANCH_RESPONSE_SHAPE, BRANCH_SCHEMA, parseBranchResponse, validateWithRepair } from '@/lib/ai/schema';
+
+// A single branch is a short object
+const BRANCH_MAX_OUTPUT_TOKENS = 512;
+
+/**
+ * Generates a replacement for one branch of an answer, distinct from the
+ * branches that are kept. Responds with `{ branch, usage, audit, fallbackModel? }`.
+ */
+export async function handleBranch(request: Request): Promise<Response> {
+  try {
+    const {
+      prompt,
+      branch: requestedBranch,
+      siblings,
+      ancestors,
+      options: requestedOptions,
+      provider: requestedProvider,
+      template: requestedTemplate,
+    } = await request.json().catch(() => ({}));
+
+    const replaced = normalizeBranch(requestedBranch);
+    const cleanPrompt = typeof prompt === 'string' ? stripControlCharacters(prompt).trim() : '';
+
+    if (!cleanPrompt || !replaced) {
+      return errorResponse(new AiError('invalid_request', 'A non-empty "prompt" and the "branch" to replace are required'));
+    }
+    if (cleanPrompt.length > MAX_QUESTION_LENGTH) {
+      return errorResponse(new AiError('invalid_request', `"prompt" must be at most ${MAX_QUESTION_LENGTH} characters`));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const startedAt = Date.now();
+    const uid = await chargeAiCall(request);
+    let usage = EMPTY_TOKEN_USAGE;
+
+    const contextText = buildAncestorContext(normalizeAncestors(ancestors));
+    const options = normalizeExploreOptions(requestedOptions);
+    const customTemplate = normalizeCustomTemplate(requestedTemplate);
+    const generation: GenerationRequest = {
+      ...buildBranchPrompt(cleanPrompt, contextText, replaced, normalizeBranches(siblings), options, customTemplate),
+      topic: `${cleanPrompt} ${replaced.title}`,
+      temperature: 0.9,
+      maxOutputTokens: BRANCH_MAX_OUTPUT_TOKENS,
+      responseSchema: BRANCH_SCHEMA,
+      signal: request.signal,
+      onUsage: (callUsage) => {
+        usage = addTokenUsage(usage, callUsage);
+      },
+    };
+
+    const outcome = await generateWithRetry(provider, generation);
+    const { value: branch, text, repaired } = await validateWithRepair(
+      provider,
+      { ...generation, model: outcome.model },
+      outcome.text,
+      parseBranchResponse,
+      BRANCH_RESPONSE_SHAPE
+    );
+    await recordAiUsage(uid, outcome.model, usage);
+
+    return Response.json({
+      branch,
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'branch',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.regenerateBranch,
+        customTemplate,
+        contextText,
+        options,
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: text,
+        repaired,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
@@ -0,0 +1,125 @@
+import { TokenUsage } from '@/types';
+import { createSseResponse } from '@/lib/ai/sse';
+import { buildAncestorContext, normalizeAncestors } from '@/lib/ai/context';
+import { buildChatPrompt, normalizeThread } from '@/lib/ai/chat';
+import { AiProvider, GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { streamWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { CustomTemplateRequest, PROMPT_TEMPLATES, normalizeCustomTemplate } from '@/lib/ai/templates';
+import { MAX_MESSAGE_LENGTH, stripControlCharacters } from '@/lib/ai/sanitize';
+import { chargeAiCall } from '@/lib/ai/quota';
+
+// Plain-text replies are shorter than explore answers, which also carry branches
+const CHAT_MAX_OUTPUT_TOKENS = 1024;
+
+/**
+ * Streams a chat reply to the client as Server-Sent Events.
+ *
+ * Events:
+ * - `answer` `{ text }` - the full reply text generated so far
+ * - `done` `{ text, usage, audit, fallbackModel? }` - the complete reply, its tokens,
+ *   the audit entry for the call, and the fallback model if it answered
+ * - `error` - an AiErrorBody; generation failed and no further events follow
+ *
+ * @param uid - User the reply's tokens are recorded for
+ * @param contextText - Rendered ancestor path the prompt was built from, for the audit entry
+ * @param customTemplate - The user's template the prompt was built with, for the audit entry
+ */
+function streamChatReply(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  uid: string,
+  contextText: string,
+  customTemplate?: CustomTemplateRequest
+): Response {
+  const startedAt = Date.now();
+
+  return createSseResponse(generation.signal, async (send, signal) => {
+    let text = '';
+    let usage = EMPTY_TOKEN_USAGE;
+    const onUsage = (callUsage: TokenUsage) => {
+      usage = addTokenUsage(usage, callUsage);
+    };
+
+    const outcome = await streamWithRetry(provider, { ...generation, signal, onUsage }, (chunk) => {
+      text += chunk;
+      send('answer', { text: text.trimStart() });
+    });
+
+    const reply = text.trim();
+    if (!reply) {
+      throw new AiError('invalid_output', `${provider.label} returned an empty reply`);
+    }
+
+    await recordAiUsage(uid, outcome.model, usage);
+    send('done', {
+      text: reply,
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'chat',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.chatReply,
+        customTemplate,
+        contextText,
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: text,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  }, (error) => {
+    const aiError = toAiError(error);
+    if (aiError.code !== 'cancelled') {
+      console.error(`Error streaming ${provider.label} chat reply:`, error);
+    }
+    return aiError.toBody();
+  });
+}
+
+/**
+ * Replies to a message in a node's conversation thread. The previous turns
+ * are sent as history and the node's path from the root as context.
+ */
+export async function handleChat(request: Request): Promise<Response> {
+  try {
+    const {
+      message,
+      thread,
+      ancestors,
+      provider: requestedProvider,
+      template: requestedTemplate,
+    } = await request.json().catch(() => ({}));
+
+    const cleanMessage = typeof message === 'string' ? stripControlCharacters(message).trim() : '';
+
+    if (!cleanMessage) {
+      return errorResponse(new AiError('invalid_request', 'A non-empty "message" string is required'));
+    }
+    if (cleanMessage.length > MAX_MESSAGE_LENGTH) {
+      return errorResponse(new AiError('invalid_request', `"message" must be at most ${MAX_MESSAGE_LENGTH} characters`));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const uid = await chargeAiCall(request);
+
+    const contextText = buildAncestorContext(normalizeAncestors(ancestors));
+    const customTemplate = normalizeCustomTemplate(requestedTemplate);
+    const generation: GenerationRequest = {
+      ...buildChatPrompt(cleanMessage, normalizeThread(thread), contextText, customTemplate),
+      topic: cleanMessage,
+      maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS,
+      signal: request.signal,
+    };
+
+    return streamChatReply(provider, generation, uid, contextText, customTemplate);
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
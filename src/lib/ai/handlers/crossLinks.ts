@@ -0,0 +1,98 @@
+import { normalizeOutlineNodes } from '@/lib/ai/report';
+import {
+  MIN_CROSS_LINK_NODES,
+  buildCrossLinkOutline,
+  buildCrossLinkPrompt,
+  filterCrossLinks,
+  normalizeLinkedPairs,
+} from '@/lib/ai/crossLinks';
+import { GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { chargeAiCall } from '@/lib/ai/quota';
+import { generateWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { PROMPT_TEMPLATES } from '@/lib/ai/templates';
+import { MAX_TITLE_LENGTH, sanitizeText } from '@/lib/ai/sanitize';
+import {
+  CROSS_LINK_RESPONSE_SHAPE,
+  CROSS_LINK_SCHEMA,
+  parseCrossLinkResponse,
+  validateWithRepair,
+} from '@/lib/ai/schema';
+
+// A handful of links with a sentence each
+const CROSS_LINK_MAX_OUTPUT_TOKENS = 1024;
+
+/**
+ * Finds related nodes in different branches of an exploration's tree and
+ * labels how they relate, naming nodes by their `ref`. Pairs in `linked`
+ * are not suggested again. Responds with `{ links, usage, audit, fallbackModel? }`.
+ */
+export async function handleCrossLinks(request: Request): Promise<Response> {
+  try {
+    const {
+      title,
+      nodes: requestedNodes,
+      linked: requestedLinked,
+      provider: requestedProvider,
+    } = await request.json().catch(() => ({}));
+
+    const nodes = normalizeOutlineNodes(requestedNodes);
+    if (nodes.length < MIN_CROSS_LINK_NODES) {
+      return errorResponse(new AiError('invalid_request', `At least ${MIN_CROSS_LINK_NODES} "nodes" are required`));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const startedAt = Date.now();
+    const uid = await chargeAiCall(request);
+    let usage = EMPTY_TOKEN_USAGE;
+
+    const cleanTitle = typeof title === 'string' ? sanitizeText(title, MAX_TITLE_LENGTH) : '';
+    const linked = normalizeLinkedPairs(requestedLinked, nodes);
+    const generation: GenerationRequest = {
+      ...buildCrossLinkPrompt(cleanTitle, nodes, linked),
+      topic: cleanTitle || nodes[0].title,
+      temperature: 0.3,
+      maxOutputTokens: CROSS_LINK_MAX_OUTPUT_TOKENS,
+      responseSchema: CROSS_LINK_SCHEMA,
+      signal: request.signal,
+      onUsage: (callUsage) => {
+        usage = addTokenUsage(usage, callUsage);
+      },
+    };
+
+    const outcome = await generateWithRetry(provider, generation);
+    const { value: response, text, repaired } = await validateWithRepair(
+      provider,
+      { ...generation, model: outcome.model },
+      outcome.text,
+      parseCrossLinkResponse,
+      CROSS_LINK_RESPONSE_SHAPE
+    );
+    await recordAiUsage(uid, outcome.model, usage);
+
+    return Response.json({
+      links: filterCrossLinks(response.links, nodes, linked),
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'links',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.findCrossLinks,
+        contextText: buildCrossLinkOutline(cleanTitle, nodes, linked),
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: text,
+        repaired,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
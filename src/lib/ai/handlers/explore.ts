@@ -0,0 +1,283 @@
+import { AiAuditEntry, ExploreOptions, GeminiResponse, NodeUsage } from '@/types';
+import { createSseResponse } from '@/lib/ai/sse';
+import { parsePartialResponse } from '@/lib/ai/partialJson';
+import { buildAncestorContext, normalizeAncestors } from '@/lib/ai/context';
+import { AiProvider, GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { getRequestUserId } from '@/lib/ai/auth';
+import { consumeAiQuota } from '@/lib/ai/quota';
+import { EXPLORE_RESPONSE_SCHEMA, EXPLORE_RESPONSE_SHAPE, parseExploreResponse, validateWithRepair } from '@/lib/ai/schema';
+import { getMaxOutputTokens, normalizeExploreOptions } from '@/lib/ai/options';
+import { getExploreModeTemplate, normalizeExploreMode } from '@/lib/ai/modes';
+import { GenerationOutcome, generateWithRetry, streamWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { createCacheKey, getResponseCache, normalizeCachePrompt, readCache, writeCache } from '@/lib/ai/cache';
+import { auditAiCall } from '@/lib/ai/audit';
+import { MAX_QUESTION_LENGTH, stripControlCharacters } from '@/lib/ai/sanitize';
+import { normalizeCustomTemplate } from '@/lib/ai/templates';
+import { buildExplorePrompt } from '@/lib/ai/explore';
+
+/**
+ * An answer as sent to the client: the model output, plus the fallback model
+ * when the primary one was unavailable, the tokens it took and the audit entry
+ * for the call
+ */
+type ExploreResult = GeminiResponse & { fallbackModel?: string; usage?: NodeUsage; audit?: AiAuditEntry };
+
+/**
+ * A finished generation, before it is cached and recorded
+ */
+interface ExploreCompletion {
+  data: ExploreResult;
+  /** Raw text the answer was parsed from */
+  text: string;
+  /** Whether the first output was invalid and `text` is the repaired one */
+  repaired: boolean;
+  /** Model that answered */
+  model: string;
+}
+
+// Mark answers that came from the fallback model so the client can say so
+const withFallbackModel = (data: GeminiResponse, outcome: GenerationOutcome): ExploreResult =>
+  outcome.usedFallback ? { ...data, fallbackModel: outcome.model } : data;
+
+// Drop any branches beyond the number that was asked for
+const limitBranches = (data: GeminiResponse, branchCount: number): GeminiResponse =>
+  data.branches.length > branchCount
+    ? { ...data, branches: data.branches.slice(0, branchCount) }
+    : data;
+
+/**
+ * Streams an answer to the client as Server-Sent Events.
+ *
+ * Events:
+ * - `answer` `{ text }` - the full answer text generated so far
+ * - `branch` `{ index, total, branch }` - a branch whose JSON object has completed,
+ *   where `total` is the number of branches requested
+ * - `done` - the final validated GeminiResponse, with `usage`, the `audit` entry and
+ *   `fallbackModel` if the fallback answered. Its `branches` are authoritative: after a
+ *   repair they differ from the streamed ones, which the client replaces with them.
+ * - `error` - an AiErrorBody; generation failed and no further events follow
+ *
+ * @param onComplete - Receives the finished generation and returns the payload of the `done` event
+ */
+function streamExploreResponse(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  options: ExploreOptions,
+  onComplete: (completion: ExploreCompletion) => Promise<ExploreResult>
+): Response {
+  const total = options.branchCount;
+
+  return createSseResponse(generation.signal, async (send, signal) => {
+    const streamGeneration = { ...generation, signal };
+    let text = '';
+    let sentAnswer = '';
+    let sentBranches = 0;
+
+    const outcome = await streamWithRetry(provider, streamGeneration, (chunk) => {
+      text += chunk;
+      const partial = parsePartialResponse(text);
+
+      if (partial.answer && partial.answer !== sentAnswer) {
+        sentAnswer = partial.answer;
+        send('answer', { text: sentAnswer });
+      }
+
+      while (sentBranches < Math.min(partial.branches.length, total)) {
+        send('branch', { index: sentBranches, total, branch: partial.branches[sentBranches] });
+        sentBranches++;
+      }
+    });
+
+    const { value, ...output } = await validateWithRepair(
+      provider,
+      { ...streamGeneration, model: outcome.model },
+      text,
+      parseExploreResponse,
+      EXPLORE_RESPONSE_SHAPE
+    );
+    const finalData = withFallbackModel(limitBranches(value, total), outcome);
+
+    if (finalData.answer !== sentAnswer) {
+      send('answer', { text: finalData.answer });
+    }
+    // After a repair the streamed branches came from the invalid output, so the rest
+    // arrive with `done` only, together with the ones that replace them
+    if (!output.repaired) {
+      finalData.branches.slice(sentBranches).forEach((branch, offset) => {
+        send('branch', { index: sentBranches + offset, total, branch });
+      });
+    }
+
+    send('done', await onComplete({ ...output, data: finalData, model: outcome.model }));
+  }, (error) => {
+    const aiError = toAiError(error);
+    if (aiError.code !== 'cancelled') {
+      console.error(`Error streaming ${provider.label} response:`, error);
+    }
+    return aiError.toBody();
+  });
+}
+
+// Tells clients (and anyone debugging) whether the answer came from the cache
+const CACHE_STATUS_HEADER = 'X-AI-Cache';
+
+/**
+ * Sends a cached answer with the same events as a live stream, all at once
+ */
+function replayExploreResponse(data: ExploreResult, signal: AbortSignal): Response {
+  const response = createSseResponse(signal, async (send) => {
+    send('answer', { text: data.answer });
+    data.branches.forEach((branch, index) => {
+      send('branch', { index, total: data.branches.length, branch });
+    });
+    send('done', data);
+  }, (error) => toAiError(error).toBody());
+
+  response.headers.set(CACHE_STATUS_HEADER, 'hit');
+  return response;
+}
+
+/**
+ * Answers a question with branches to explore next. Streams Server-Sent
+ * Events when `stream` is set, otherwise responds with a GeminiResponse.
+ */
+export async function handleExplore(request: Request): Promise<Response> {
+  try {
+    const {
+      prompt,
+      stream,
+      ancestors,
+      mode: requestedMode,
+      options: requestedOptions,
+      provider: requestedProvider,
+      template: requestedTemplate,
+      bypassCache,
+    } = await request.json().catch(() => ({}));
+    
+    // Control and invisible characters are dropped before anything else looks at the question
+    const cleanPrompt = typeof prompt === 'string' ? stripControlCharacters(prompt).trim() : '';
+
+    if (!cleanPrompt) {
+      return errorResponse(new AiError('invalid_request', 'A non-empty "prompt" string is required'));
+    }
+    if (cleanPrompt.length > MAX_QUESTION_LENGTH) {
+      return errorResponse(new AiError('invalid_request', `"prompt" must be at most ${MAX_QUESTION_LENGTH} characters`));
+    }
+    
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const startedAt = Date.now();
+    const uid = await getRequestUserId(request);
+    // Tokens of every model call for this answer, repairs included
+    let usage = EMPTY_TOKEN_USAGE;
+    
+    // Create the prompt for the model; a mode turns the branch title into its templated question
+    const options = normalizeExploreOptions(requestedOptions);
+    const mode = normalizeExploreMode(requestedMode);
+    const modeTemplate = mode ? getExploreModeTemplate(mode) : undefined;
+    const question = modeTemplate ? modeTemplate.question(cleanPrompt) : cleanPrompt;
+    const contextText = buildAncestorContext(normalizeAncestors(ancestors));
+    const customTemplate = normalizeCustomTemplate(requestedTemplate);
+    const { template: promptTemplate, ...renderedPrompt } = buildExplorePrompt(
+      question,
+      contextText,
+      options,
+      modeTemplate?.instructions,
+      customTemplate
+    );
+    const generation: GenerationRequest = {
+      ...renderedPrompt,
+      topic: question,
+      branchCount: options.branchCount,
+      maxOutputTokens: getMaxOutputTokens(options),
+      responseSchema: EXPLORE_RESPONSE_SCHEMA,
+      signal: request.signal,
+      onUsage: (callUsage) => {
+        usage = addTokenUsage(usage, callUsage);
+      },
+    };
+
+    // Audit entry for this request, once the model (or the cache) has answered
+    const audit = (model: string, response: string, extra: { repaired?: boolean; cached?: boolean } = {}) =>
+      auditAiCall({
+        kind: 'explore',
+        provider,
+        model,
+        template: promptTemplate,
+        customTemplate,
+        contextText,
+        mode,
+        options,
+        ...renderedPrompt,
+        response,
+        startedAt,
+        ...extra,
+      });
+
+    // Identical questions in the same context share an answer until the TTL runs out;
+    // an explicit regenerate skips the lookup but still refreshes the entry. A new
+    // version of the prompt template starts from an empty cache.
+    const cache = getResponseCache();
+    const cacheKey = createCacheKey({
+      prompt: normalizeCachePrompt(question),
+      context: contextText,
+      mode: mode ?? null,
+      options,
+      template: `${promptTemplate.id}@${promptTemplate.version}`,
+      style: customTemplate?.instructions ?? null,
+      provider: provider.id,
+      model: provider.model,
+    });
+
+    if (cache && bypassCache !== true) {
+      const cachedText = await readCache(cache, cacheKey);
+      const cached = cachedText ? parseExploreResponse(cachedText) : undefined;
+
+      if (cachedText && cached?.ok) {
+        const data: ExploreResult = { ...cached.value, audit: audit(provider.model, cachedText, { cached: true }) };
+        return stream
+          ? replayExploreResponse(data, request.signal)
+          : Response.json(data, { headers: { [CACHE_STATUS_HEADER]: 'hit' } });
+      }
+    }
+
+    // Every call that reaches the model is charged to the signed-in user
+    await consumeAiQuota(uid);
+
+    // Fallback answers are not cached, since the key names the primary model. Usage is
+    // recorded for the user and returned for the node, but never cached with the answer
+    const finishAnswer = async ({ data, model, text, repaired }: ExploreCompletion): Promise<ExploreResult> => {
+      if (cache && !data.fallbackModel) await writeCache(cache, cacheKey, JSON.stringify(data));
+      await recordAiUsage(uid, model, usage);
+      return { ...data, usage: { model, ...usage }, audit: audit(model, text, { repaired }) };
+    };
+    
+    if (stream) {
+      const response = streamExploreResponse(provider, generation, options, finishAnswer);
+      response.headers.set(CACHE_STATUS_HEADER, 'miss');
+      return response;
+    }
+    
+    const outcome = await generateWithRetry(provider, generation);
+    const { value, ...output } = await validateWithRepair(
+      provider,
+      { ...generation, model: outcome.model },
+      outcome.text,
+      parseExploreResponse,
+      EXPLORE_RESPONSE_SHAPE
+    );
+    const result = await finishAnswer({
+      ...output,
+      data: withFallbackModel(limitBranches(value, options.branchCount), outcome),
+      model: outcome.model,
+    });
+    
+    return Response.json(result, { headers: { [CACHE_STATUS_HEADER]: 'miss' } });
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
@@ -0,0 +1,32 @@
+import { handleAsk } from './ask';
+import { handleBranch } from './branch';
+import { handleChat } from './chat';
+import { handleCrossLinks } from './crossLinks';
+import { handleExplore } from './explore';
+import { handleQuota } from './quota';
+import { handleReport } from './report';
+import { handleSynthesize } from './synthesize';
+import { handleTitle } from './title';
+
+/**
+ * A server-side AI endpoint, written against the Fetch API so it runs in any
+ * runtime that can adapt its requests to `Request` / `Response`
+ */
+export type AiRequestHandler = (request: Request) => Promise<Response>;
+
+/**
+ * AI endpoints by path, relative to the AI API base URL
+ */
+export const AI_REQUEST_HANDLERS: Record<string, AiRequestHandler> = {
+  '/gemini': handleExplore,
+  '/chat': handleChat,
+  '/branch': handleBranch,
+  '/report': handleReport,
+  '/ask': handleAsk,
+  '/title': handleTitle,
+  '/synthesize': handleSynthesize,
+  '/cross-links': handleCrossLinks,
+  '/quota': handleQuota,
+};
+
+export { handleAsk, handleBranch, handleChat, handleCrossLinks, handleExplore, handleQuota, handleReport, handleSynthesize, handleTitle };
@@ -0,0 +1,18 @@
+import { errorResponse, toAiError } from '@/lib/ai/errors';
+import { getRequestUserId } from '@/lib/ai/auth';
+import { getAiQuotaStatus } from '@/lib/ai/quota';
+
+/**
+ * Reports the signed-in user's AI request limits and how many requests they
+ * have left today, so the client can size a batch of calls before starting
+ * it. Reading the quota is not counted against it. Responds with an AiQuotaStatus.
+ */
+export async function handleQuota(request: Request): Promise<Response> {
+  try {
+    const uid = await getRequestUserId(request);
+    return Response.json(await getAiQuotaStatus(uid));
+  } catch (error) {
+    console.error('Error reading AI quota:', error);
+    return errorResponse(toAiError(error));
+  }
+}
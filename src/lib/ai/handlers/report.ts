@@ -0,0 +1,80 @@
+import { buildReportOutline, buildReportPrompt, matchReportSections, normalizeOutlineNodes } from '@/lib/ai/report';
+import { GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { chargeAiCall } from '@/lib/ai/quota';
+import { generateWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { PROMPT_TEMPLATES } from '@/lib/ai/templates';
+import { MAX_TITLE_LENGTH, sanitizeText } from '@/lib/ai/sanitize';
+import { REPORT_RESPONSE_SHAPE, REPORT_SCHEMA, parseReportResponse, validateWithRepair } from '@/lib/ai/schema';
+
+// A summary plus a few sentences for every explored node
+const REPORT_MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Summarises an exploration's node tree into a report: an executive summary
+ * and one section per explored node, naming nodes by their `ref`. Responds
+ * with `{ report, usage, audit, fallbackModel? }`.
+ */
+export async function handleReport(request: Request): Promise<Response> {
+  try {
+    const { title, nodes: requestedNodes, provider: requestedProvider } = await request.json().catch(() => ({}));
+
+    const nodes = normalizeOutlineNodes(requestedNodes);
+    if (!nodes.some((node) => node.question)) {
+      return errorResponse(new AiError('invalid_request', '"nodes" must include at least one explored node'));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const startedAt = Date.now();
+    const uid = await chargeAiCall(request);
+    let usage = EMPTY_TOKEN_USAGE;
+
+    const cleanTitle = typeof title === 'string' ? sanitizeText(title, MAX_TITLE_LENGTH) : '';
+    const generation: GenerationRequest = {
+      ...buildReportPrompt(cleanTitle, nodes),
+      topic: cleanTitle || nodes[0].title,
+      temperature: 0.3,
+      maxOutputTokens: REPORT_MAX_OUTPUT_TOKENS,
+      responseSchema: REPORT_SCHEMA,
+      signal: request.signal,
+      onUsage: (callUsage) => {
+        usage = addTokenUsage(usage, callUsage);
+      },
+    };
+
+    const outcome = await generateWithRetry(provider, generation);
+    const { value: report, text, repaired } = await validateWithRepair(
+      provider,
+      { ...generation, model: outcome.model },
+      outcome.text,
+      parseReportResponse,
+      REPORT_RESPONSE_SHAPE
+    );
+    await recordAiUsage(uid, outcome.model, usage);
+
+    return Response.json({
+      report: matchReportSections(report, nodes),
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'report',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.summarizeReport,
+        contextText: buildReportOutline(cleanTitle, nodes),
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: text,
+        repaired,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  MAX_SYNTHESIS_SOURCES,
+  MIN_SYNTHESIS_SOURCES,
+  buildSynthesisPrompt,
+  formatSynthesisSources,
+  normalizeSynthesisSources,
+} from '@/lib/ai/synthesis';
+import { GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { chargeAiCall } from '@/lib/ai/quota';
+import { generateWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { PROMPT_TEMPLATES, normalizeCustomTemplate } from '@/lib/ai/templates';
+import { MAX_QUESTION_LENGTH, sanitizeText } from '@/lib/ai/sanitize';
+import {
+  SYNTHESIS_RESPONSE_SHAPE,
+  SYNTHESIS_SCHEMA,
+  parseSynthesisResponse,
+  validateWithRepair,
+} from '@/lib/ai/schema';
+
+// An insight is a title and a paragraph or two
+const SYNTHESIS_MAX_OUTPUT_TOKENS = 768;
+
+/**
+ * Combines several nodes the user selected into one new insight that
+ * connects them. Responds with `{ synthesis, usage, audit, fallbackModel? }`.
+ */
+export async function handleSynthesize(request: Request): Promise<Response> {
+  try {
+    const {
+      sources: requestedSources,
+      question,
+      provider: requestedProvider,
+      template: requestedTemplate,
+    } = await request.json().catch(() => ({}));
+
+    const sources = normalizeSynthesisSources(requestedSources);
+
+    if (sources.length < MIN_SYNTHESIS_SOURCES) {
+      return errorResponse(new AiError(
+        'invalid_request',
+        `Between ${MIN_SYNTHESIS_SOURCES} and ${MAX_SYNTHESIS_SOURCES} "sources" are required`
+      ));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const startedAt = Date.now();
+    const uid = await chargeAiCall(request);
+    let usage = EMPTY_TOKEN_USAGE;
+
+    const cleanQuestion = typeof question === 'string' ? sanitizeText(question, MAX_QUESTION_LENGTH) : '';
+    const customTemplate = normalizeCustomTemplate(requestedTemplate);
+    const generation: GenerationRequest = {
+      ...buildSynthesisPrompt(sources, cleanQuestion, customTemplate),
+      topic: sources.map((source) => source.title || source.question).join(' + '),
+      temperature: 0.7,
+      maxOutputTokens: SYNTHESIS_MAX_OUTPUT_TOKENS,
+      responseSchema: SYNTHESIS_SCHEMA,
+      signal: request.signal,
+      onUsage: (callUsage) => {
+        usage = addTokenUsage(usage, callUsage);
+      },
+    };
+
+    const outcome = await generateWithRetry(provider, generation);
+    const { value: synthesis, text, repaired } = await validateWithRepair(
+      provider,
+      { ...generation, model: outcome.model },
+      outcome.text,
+      parseSynthesisResponse,
+      SYNTHESIS_RESPONSE_SHAPE
+    );
+    await recordAiUsage(uid, outcome.model, usage);
+
+    return Response.json({
+      synthesis,
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'synthesis',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.synthesizeNodes,
+        customTemplate,
+        contextText: formatSynthesisSources(sources),
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: text,
+        repaired,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
@@ -0,0 +1,79 @@
+import { buildTitlePrompt, cleanGeneratedTitle, normalizeTitleTopics } from '@/lib/ai/title';
+import { GenerationRequest, resolveConfiguredProvider } from '@/lib/ai/providers';
+import { AiError, errorResponse, toAiError } from '@/lib/ai/errors';
+import { chargeAiCall } from '@/lib/ai/quota';
+import { generateWithRetry } from '@/lib/ai/retry';
+import { EMPTY_TOKEN_USAGE, addTokenUsage } from '@/lib/ai/usage';
+import { recordAiUsage } from '@/lib/ai/usageLedger';
+import { auditAiCall } from '@/lib/ai/audit';
+import { PROMPT_TEMPLATES } from '@/lib/ai/templates';
+import { MAX_CONTENT_LENGTH, MAX_QUESTION_LENGTH, sanitizeText, stripControlCharacters } from '@/lib/ai/sanitize';
+
+// A title is a handful of words
+const TITLE_MAX_OUTPUT_TOKENS = 32;
+
+/**
+ * Names an exploration in a few words from the question that started it,
+ * its answer and the topics explored since. Responds with
+ * `{ title, usage, audit, fallbackModel? }`.
+ */
+export async function handleTitle(request: Request): Promise<Response> {
+  try {
+    const { question, answer, topics, provider: requestedProvider } = await request.json().catch(() => ({}));
+
+    const cleanQuestion = typeof question === 'string' ? stripControlCharacters(question).trim() : '';
+
+    if (!cleanQuestion) {
+      return errorResponse(new AiError('invalid_request', 'A non-empty "question" string is required'));
+    }
+    if (cleanQuestion.length > MAX_QUESTION_LENGTH) {
+      return errorResponse(new AiError('invalid_request', `"question" must be at most ${MAX_QUESTION_LENGTH} characters`));
+    }
+
+    const provider = resolveConfiguredProvider(requestedProvider);
+
+    const startedAt = Date.now();
+    const uid = await chargeAiCall(request);
+    let usage = EMPTY_TOKEN_USAGE;
+
+    const cleanAnswer = typeof answer === 'string' ? sanitizeText(answer, MAX_CONTENT_LENGTH) : '';
+    const generation: GenerationRequest = {
+      ...buildTitlePrompt(cleanQuestion, cleanAnswer, normalizeTitleTopics(topics)),
+      topic: cleanQuestion,
+      temperature: 0.4,
+      maxOutputTokens: TITLE_MAX_OUTPUT_TOKENS,
+      signal: request.signal,
+      onUsage: (callUsage) => {
+        usage = addTokenUsage(usage, callUsage);
+      },
+    };
+
+    const outcome = await generateWithRetry(provider, generation);
+    await recordAiUsage(uid, outcome.model, usage);
+
+    const title = cleanGeneratedTitle(outcome.text);
+    if (!title) {
+      throw new AiError('invalid_output', `${provider.label} returned an empty title`);
+    }
+
+    return Response.json({
+      title,
+      usage: { model: outcome.model, ...usage },
+      audit: auditAiCall({
+        kind: 'title',
+        provider,
+        model: outcome.model,
+        template: PROMPT_TEMPLATES.explorationTitle,
+        contextText: cleanAnswer,
+        systemInstruction: generation.systemInstruction,
+        prompt: generation.prompt,
+        response: outcome.text,
+        startedAt,
+      }),
+      ...(outcome.usedFallback ? { fallbackModel: outcome.model } : {}),
+    });
+  } catch (error) {
+    console.error('Error calling AI provider:', error);
+    return errorResponse(toAiError(error));
+  }
+}
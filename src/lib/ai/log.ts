@@ -0,0 +1,34 @@
+/**
+ * Structured logging for the AI API. Each entry is one JSON line, which Cloud
+ * Logging indexes by field (`severity` sets the log level there).
+ */
+
+export type AiLogSeverity = 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR';
+
+const CONSOLE_METHODS: Record<AiLogSeverity, (...args: unknown[]) => void> = {
+  DEBUG: console.debug,
+  INFO: console.info,
+  WARNING: console.warn,
+  ERROR: console.error,
+};
+
+/**
+ * Writes one structured log entry
+ *
+ * @param severity - Log level
+ * @param event - Stable, machine-readable event name, e.g. `ai.retry`
+ * @param fields - Extra context; errors are reduced to their name and message
+ */
+export function logAiEvent(severity: AiLogSeverity, event: string, fields: Record<string, unknown> = {}): void {
+  const entry: Record<string, unknown> = {
+    severity,
+    event,
+    timestamp: new Date().toISOString(),
+  };
+
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+
+  CONSOLE_METHODS[severity](JSON.stringify(entry));
+}
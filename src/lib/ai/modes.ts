@@ -0,0 +1,77 @@
+import { ExploreMode } from '@/types';
+
+/**
+ * Prompt template for one way of exploring a branch
+ */
+interface ExploreModeTemplate {
+  /** Turns the branch title into the question the model answers */
+  question: (topic: string) => string;
+  /** Extra requirements for the answer and subtopics */
+  instructions: string[];
+}
+
+const EXPLORE_MODE_TEMPLATES: Record<ExploreMode, ExploreModeTemplate> = {
+  deeper: {
+    question: (topic) => `Explore in detail: ${topic}`,
+    instructions: [
+      'Go beyond the summary already given: explain the underlying mechanisms, causes and details.',
+      'Subtopics should narrow into more specific aspects of this topic.',
+    ],
+  },
+  examples: {
+    question: (topic) => `Give concrete examples of: ${topic}`,
+    instructions: [
+      'Build the answer around specific, real-world examples, naming actual cases, places, people or products where possible.',
+      'Each subtopic should be a distinct example or category of examples worth looking into.',
+    ],
+  },
+  counterargument: {
+    question: (topic) => `What is the strongest counterargument to: ${topic}`,
+    instructions: [
+      'Steelman the opposing view: present the most charitable and compelling case against this topic or its usual framing.',
+      'Do not rebut the counterargument; present it as its strongest proponents would.',
+      'Subtopics should be individual objections, criticisms or alternative interpretations.',
+    ],
+  },
+  history: {
+    question: (topic) => `What is the historical background of: ${topic}`,
+    instructions: [
+      'Explain how this came to be: origins, key turning points and how it has changed over time.',
+      'Subtopics should be notable periods, events or figures, in roughly chronological order.',
+    ],
+  },
+  howto: {
+    question: (topic) => `How can someone put this into practice: ${topic}`,
+    instructions: [
+      'Answer with practical, actionable guidance in the order someone would carry it out.',
+      'Each subtopic should be one concrete step, with the description explaining how to do it.',
+    ],
+  },
+  compare: {
+    question: (topic) => `How does this compare with its alternatives: ${topic}`,
+    instructions: [
+      'Identify the main alternatives and compare them on the criteria that matter most, noting trade-offs.',
+      'Each subtopic should be one alternative or one dimension of the comparison.',
+    ],
+  },
+};
+
+/**
+ * Validates the `mode` field of a request body
+ *
+ * @param value - Untrusted value from the request body
+ * @returns The mode, or undefined for a plain question
+ */
+export function normalizeExploreMode(value: unknown): ExploreMode | undefined {
+  return typeof value === 'string' && value in EXPLORE_MODE_TEMPLATES
+    ? value as ExploreMode
+    : undefined;
+}
+
+/**
+ * Returns the prompt template for an exploration mode
+ *
+ * @param mode - Mode chosen from the branch action menu
+ */
+export const getExploreModeTemplate = (mode: ExploreMode): ExploreModeTemplate =>
+  EXPLORE_MODE_TEMPLATES[mode];
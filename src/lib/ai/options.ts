@@ -0,0 +1,62 @@
+import { AnswerLength, ExploreOptions, ReadingLevel } from '@/types';
+import {
+  ANSWER_LENGTH_OPTIONS,
+  DEFAULT_EXPLORE_OPTIONS,
+  MAX_BRANCH_COUNT,
+  MIN_BRANCH_COUNT,
+  READING_LEVEL_OPTIONS,
+} from '@/config/aiConfig';
+
+// Prompt wording for each answer length
+const ANSWER_LENGTH_INSTRUCTIONS: Record<AnswerLength, string> = {
+  brief: '2-3 sentences',
+  standard: '4-6 sentences',
+  detailed: '8-12 sentences, covering nuances and examples',
+};
+
+// Prompt wording for each reading level
+const READING_LEVEL_INSTRUCTIONS: Record<ReadingLevel, string> = {
+  simple: 'Use plain, everyday language that a curious 12-year-old could follow, and explain any necessary terms.',
+  general: 'Write for an educated general audience.',
+  expert: 'Write for a specialist: use precise technical terminology and go beyond introductory material.',
+};
+
+// Output token limit for each answer length; branches add to it below
+const BASE_OUTPUT_TOKENS: Record<AnswerLength, number> = {
+  brief: 768,
+  standard: 1536,
+  detailed: 2560,
+};
+const TOKENS_PER_BRANCH = 120;
+
+/**
+ * Validates the `options` field of a request body, falling back to the
+ * defaults for anything missing or out of range
+ *
+ * @param value - Untrusted value from the request body
+ */
+export function normalizeExploreOptions(value: unknown): ExploreOptions {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ExploreOptions, unknown>>;
+
+  const branchCount = typeof input.branchCount === 'number' && Number.isFinite(input.branchCount)
+    ? Math.min(MAX_BRANCH_COUNT, Math.max(MIN_BRANCH_COUNT, Math.round(input.branchCount)))
+    : DEFAULT_EXPLORE_OPTIONS.branchCount;
+
+  const answerLength = ANSWER_LENGTH_OPTIONS.find(({ id }) => id === input.answerLength)?.id
+    ?? DEFAULT_EXPLORE_OPTIONS.answerLength;
+
+  const readingLevel = READING_LEVEL_OPTIONS.find(({ id }) => id === input.readingLevel)?.id
+    ?? DEFAULT_EXPLORE_OPTIONS.readingLevel;
+
+  return { branchCount, answerLength, readingLevel };
+}
+
+export const describeAnswerLength = (length: AnswerLength): string => ANSWER_LENGTH_INSTRUCTIONS[length];
+
+export const describeReadingLevel = (level: ReadingLevel): string => READING_LEVEL_INSTRUCTIONS[level];
+
+/**
+ * Output token limit large enough for the requested answer and branches
+ */
+export const getMaxOutputTokens = (options: ExploreOptions): number =>
+  BASE_OUTPUT_TOKENS[options.answerLength] + options.branchCount * TOKENS_PER_BRANCH;
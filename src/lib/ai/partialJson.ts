@@ -0,0 +1,140 @@
+import { Branch } from '@/types';
+
+/**
+ * What can be recovered from a model response that is still being generated
+ */
+export interface PartialExploreResponse {
+  /** Answer text generated so far (may end mid-sentence) */
+  answer: string;
+  /** Branches whose JSON objects are already complete */
+  branches: Branch[];
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Decodes a JSON string literal starting right after its opening quote,
+ * stopping at the closing quote or at the end of the available text.
+ * A trailing incomplete escape sequence is dropped rather than guessed.
+ */
+function readPartialString(text: string, start: number): string {
+  let result = '';
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') break;
+
+    if (char === '\\') {
+      const next = text[i + 1];
+      if (next === undefined) break;
+
+      if (next === 'u') {
+        const hex = text.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+        result += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+
+      result += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Returns every complete top-level object inside the array that starts at `start`
+ */
+function readCompleteObjects(text: string, start: number): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && objectStart !== -1) {
+        objects.push(text.slice(objectStart, i + 1));
+        objectStart = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Extracts the answer and finished branches from a partially generated
+ * `{ "answer": ..., "branches": [...] }` document.
+ *
+ * Used while streaming so the UI can show the answer as it is written and
+ * add each branch as soon as its object closes.
+ *
+ * @param text - Model output accumulated so far
+ * @returns Whatever can already be shown
+ */
+export function parsePartialResponse(text: string): PartialExploreResponse {
+  const answerMatch = /"answer"\s*:\s*"/.exec(text);
+  const answer = answerMatch
+    ? readPartialString(text, answerMatch.index + answerMatch[0].length)
+    : '';
+
+  const branches: Branch[] = [];
+  const branchesMatch = /"branches"\s*:\s*\[/.exec(text);
+
+  if (branchesMatch) {
+    const objects = readCompleteObjects(text, branchesMatch.index + branchesMatch[0].length);
+
+    for (const objectText of objects) {
+      try {
+        const branch = JSON.parse(objectText.replace(/,(\s*[}\]])/g, '$1'));
+        if (typeof branch.title === 'string' && typeof branch.description === 'string') {
+          branches.push({ title: branch.title, description: branch.description });
+        }
+      } catch {
+        // A malformed branch is skipped here; the final parse reports it
+      }
+    }
+  }
+
+  return { answer, branches };
+}
@@ -0,0 +1,145 @@
+import { readSseStream } from '@/lib/ai/sse';
+import { TokenUsage } from '@/types';
+import { AiProvider, GenerationRequest, ProviderError, throwForStatus } from './types';
+
+// Server-only secret; never expose it with a NEXT_PUBLIC_ prefix
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+const GEMINI_FALLBACK_MODEL = process.env.GEMINI_FALLBACK_MODEL || undefined;
+// v1beta exposes structured output (responseMimeType / responseSchema)
+const getModelUrl = (model: string) => `https://generativelanguage.googleapis.com/v1beta/models/${model}`;
+
+const buildGeminiRequest = (request: GenerationRequest) => ({
+  ...(request.systemInstruction ? {
+    systemInstruction: {
+      parts: [
+        {
+          text: request.systemInstruction
+        }
+      ]
+    }
+  } : {}),
+  contents: [
+    {
+      role: "user",
+      parts: [
+        {
+          text: request.prompt
+        }
+      ]
+    }
+  ],
+  generationConfig: {
+    temperature: request.temperature ?? 0.7,
+    topK: 40,
+    topP: 0.95,
+    maxOutputTokens: request.maxOutputTokens ?? 2048,
+    ...(request.responseSchema ? {
+      responseMimeType: 'application/json',
+      responseSchema: request.responseSchema,
+    } : {}),
+  }
+});
+
+/**
+ * Token counts Gemini reports for a request
+ */
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+/**
+ * The fields read from a Gemini response or stream chunk
+ */
+interface GeminiResponseBody {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+// Safely access nested properties of a Gemini response or stream chunk
+const getCandidateText = (data: GeminiResponseBody | undefined): string | undefined =>
+  data?.candidates?.[0]?.content?.parts?.[0]?.text;
+
+// Token counts from `usageMetadata`; streamed chunks carry the running totals
+const getUsage = (data: GeminiResponseBody | undefined): TokenUsage | undefined =>
+  data?.usageMetadata
+    ? {
+        promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+      }
+    : undefined;
+
+/**
+ * Google Gemini via the Generative Language REST API
+ */
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  model: GEMINI_MODEL,
+  fallbackModel: GEMINI_FALLBACK_MODEL,
+
+  isConfigured: () => !!GEMINI_API_KEY,
+
+  async generate(request) {
+    const response = await fetch(`${getModelUrl(request.model ?? GEMINI_MODEL)}:generateContent?key=${GEMINI_API_KEY}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildGeminiRequest(request)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      await throwForStatus(response, 'Gemini');
+    }
+
+    const data: GeminiResponseBody | undefined = await response.json();
+
+    // Validate the response structure
+    if (!data || !data.candidates || !data.candidates.length) {
+      console.error('Invalid Gemini response structure:', data);
+      throw new ProviderError('Unexpected response format from Gemini');
+    }
+
+    const text = getCandidateText(data);
+    if (!text) {
+      throw new ProviderError('No text content in Gemini response');
+    }
+
+    const usage = getUsage(data);
+    if (usage) request.onUsage?.(usage);
+
+    return text;
+  },
+
+  async stream(request, onText) {
+    const response = await fetch(`${getModelUrl(request.model ?? GEMINI_MODEL)}:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildGeminiRequest(request)),
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      await throwForStatus(response, 'Gemini');
+    }
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    await readSseStream(response.body!, ({ data }) => {
+      const parsed: GeminiResponseBody | undefined = JSON.parse(data);
+      usage = getUsage(parsed) ?? usage;
+      const chunk = getCandidateText(parsed);
+      if (!chunk) return;
+      text += chunk;
+      onText(chunk);
+    });
+
+    if (usage) request.onUsage?.(usage);
+    return text;
+  },
+};
@@ -0,0 +1,56 @@
+import { AiProviderId } from '@/types';
+import { AiProvider } from './types';
+import { AiError } from '@/lib/ai/errors';
+import { geminiProvider } from './gemini';
+import { openAiProvider } from './openai';
+import { ollamaProvider } from './ollama';
+import { mockProvider } from './mock';
+
+export type { AiProvider, GenerationRequest } from './types';
+export { ProviderError } from './types';
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+const isProviderId = (value: unknown): value is AiProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+/**
+ * Provider used when a request does not ask for one, set per deployment
+ * with AI_PROVIDER (defaults to Gemini)
+ */
+export const getDefaultProvider = (): AiProvider => {
+  const configured = process.env.AI_PROVIDER;
+  return isProviderId(configured) ? PROVIDERS[configured] : geminiProvider;
+};
+
+/**
+ * Resolves the provider for a request.
+ *
+ * An exploration may ask for a specific provider; unknown ids fall back to
+ * the deployment default.
+ *
+ * @param requested - Provider id from the request body, if any
+ */
+export function resolveProvider(requested?: unknown): AiProvider {
+  return isProviderId(requested) ? PROVIDERS[requested] : getDefaultProvider();
+}
+
+/**
+ * Resolves the provider for a request and checks that this deployment can call it
+ *
+ * @param requested - Provider id from the request body, if any
+ * @throws AiError `not_configured` when the provider has no credentials or endpoint
+ */
+export function resolveConfiguredProvider(requested?: unknown): AiProvider {
+  const provider = resolveProvider(requested);
+  if (!provider.isConfigured()) {
+    console.error(`${provider.label} provider is not configured`);
+    throw new AiError('not_configured', `The ${provider.label} provider is not configured`);
+  }
+  return provider;
+}
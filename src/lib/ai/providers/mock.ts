@@ -0,0 +1,144 @@
+import { CrossLinkResponse, GeminiResponse, ReportResponse, SynthesisResponse } from '@/types';
+import { CROSS_LINK_RELATION_OPTIONS, DEFAULT_EXPLORE_OPTIONS } from '@/config/aiConfig';
+import { BRANCH_SCHEMA, CROSS_LINK_SCHEMA, REPORT_SCHEMA, SYNTHESIS_SCHEMA } from '@/lib/ai/schema';
+import { AiProvider, GenerationRequest } from './types';
+
+// Delay between streamed chunks so the progressive UI can be seen offline
+const MOCK_CHUNK_DELAY_MS = Number(process.env.MOCK_AI_CHUNK_DELAY_MS ?? 30);
+const MOCK_CHUNK_SIZE = 24;
+
+const ANGLES = [
+  { title: 'Origins and History of', description: 'How the idea first appeared and the milestones that shaped it. Knowing where it came from explains many of its current quirks.' },
+  { title: 'Core Mechanisms Behind', description: 'The underlying principles that make it work. Each step depends on the one before it, which is why small changes can have large effects.' },
+  { title: 'Common Misconceptions About', description: 'Popular beliefs that do not hold up under scrutiny. Untangling them makes the real picture much easier to reason about.' },
+  { title: 'Real-World Applications of', description: 'Where it shows up in everyday life and industry. Practical use often reveals constraints that theory glosses over.' },
+  { title: 'Open Questions Surrounding', description: 'What experts still disagree on or have yet to measure. These gaps are where the most interesting work is happening.' },
+  { title: 'Ethical Considerations Around', description: 'Who benefits, who bears the cost, and how those trade-offs are decided. The answers vary widely between communities.' },
+  { title: 'Future Directions for', description: 'Trends that are likely to change it over the next decade. Some are incremental while others could reshape the field.' },
+];
+
+// Small deterministic string hash (djb2) so the same topic always yields the same output
+const hash = (text: string): number => {
+  let value = 5381;
+  for (let i = 0; i < text.length; i++) {
+    value = ((value << 5) + value + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+};
+
+const shorten = (topic: string): string => {
+  const cleaned = topic.replace(/^explore in detail:\s*/i, '').replace(/[?.!]+$/, '').trim();
+  const words = cleaned.split(/\s+/);
+  return words.length > 5 ? `${words.slice(0, 5).join(' ')}...` : cleaned || 'This Topic';
+};
+
+/**
+ * Builds the canned response for a request
+ */
+export function buildMockResponse(request: GenerationRequest): GeminiResponse {
+  const subject = shorten(request.topic);
+  const offset = hash(request.topic) % ANGLES.length;
+
+  return {
+    answer: `This is a mock answer about "${subject}", generated offline without calling a model. ` +
+      `It stands in for a real explanation so the canvas, streaming and branching can be exercised during development. ` +
+      `The same question always produces the same answer and subtopics, which keeps demos and screenshots reproducible.`,
+    branches: Array.from({ length: request.branchCount ?? DEFAULT_EXPLORE_OPTIONS.branchCount }, (_, index) => {
+      const angle = ANGLES[(offset + index) % ANGLES.length];
+      return {
+        title: `${angle.title} ${subject}`,
+        description: angle.description,
+      };
+    }),
+  };
+}
+
+// A report with a section for every node reference found in the outline
+const buildMockReport = (request: GenerationRequest): ReportResponse => ({
+  summary: `This is a mock report about "${shorten(request.topic)}", generated offline without calling a model. ` +
+    'It stands in for a real digest so the report dialog can be exercised during development.',
+  sections: Array.from(new Set(request.prompt.match(/^\s*\[n\d+\]/gm) ?? []), (match) => ({
+    ref: match.trim().slice(1, -1),
+    summary: 'A mock summary of what was learned in this topic and the subtopics below it.',
+  })),
+});
+
+// An insight naming the topics it combines; the request topic lists them joined by " + "
+const buildMockSynthesis = (request: GenerationRequest): SynthesisResponse => ({
+  title: `What Connects ${request.topic.split(' + ').length} Topics`,
+  insight: `This is a mock insight connecting ${request.topic.split(' + ').map(shorten).join(', ')}, generated offline without calling a model. ` +
+    'It stands in for a real synthesis so combining nodes can be exercised during development.',
+});
+
+// Links pairing the outline's topics from both ends inwards, skipping the root; the
+// handler drops any pair that turns out to share a branch
+const buildMockCrossLinks = (request: GenerationRequest): CrossLinkResponse => {
+  const refs = Array.from(new Set(request.prompt.match(/^\s*\[n\d+\]/gm) ?? []), (match) => match.trim().slice(1, -1)).slice(1);
+  return {
+    links: refs.slice(0, Math.floor(refs.length / 2)).map((source, index) => ({
+      source,
+      target: refs[refs.length - 1 - index],
+      relation: CROSS_LINK_RELATION_OPTIONS[index % CROSS_LINK_RELATION_OPTIONS.length].id,
+      reason: 'A mock connection suggested offline so cross-links can be exercised during development.',
+    })),
+  };
+};
+
+// Questions about a whole exploration cite the first topics in their notes
+const buildMockCitations = (request: GenerationRequest): string =>
+  request.prompt.includes('<exploration_notes>')
+    ? Array.from(new Set(request.prompt.match(/\[n\d+\]/g) ?? [])).slice(0, 2).join('')
+    : '';
+
+// Structured requests get the JSON document they asked for, free-text ones (chat) just the answer
+const buildMockText = (request: GenerationRequest): string => {
+  if (request.responseSchema === REPORT_SCHEMA) return JSON.stringify(buildMockReport(request), null, 2);
+  if (request.responseSchema === SYNTHESIS_SCHEMA) return JSON.stringify(buildMockSynthesis(request), null, 2);
+  if (request.responseSchema === CROSS_LINK_SCHEMA) return JSON.stringify(buildMockCrossLinks(request), null, 2);
+  const response = buildMockResponse(request);
+  if (request.responseSchema === BRANCH_SCHEMA) return JSON.stringify(response.branches[0], null, 2);
+  if (request.responseSchema) return JSON.stringify(response, null, 2);
+  const citations = buildMockCitations(request);
+  return citations ? `${response.answer} ${citations}` : response.answer;
+};
+
+// Rough token counts (about four characters per token) so usage tracking can be exercised offline
+const reportMockUsage = (request: GenerationRequest, text: string): void => {
+  request.onUsage?.({
+    promptTokens: Math.ceil((request.prompt.length + (request.systemInstruction?.length ?? 0)) / 4),
+    outputTokens: Math.ceil(text.length / 4),
+  });
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Deterministic provider that never leaves the machine.
+ * Select it with AI_PROVIDER=mock to use the app offline or in demos.
+ */
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Mock',
+  model: 'mock',
+
+  isConfigured: () => true,
+
+  async generate(request) {
+    const text = buildMockText(request);
+    reportMockUsage(request, text);
+    return text;
+  },
+
+  async stream(request, onText) {
+    const text = buildMockText(request);
+
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      request.signal?.throwIfAborted();
+      onText(text.slice(i, i + MOCK_CHUNK_SIZE));
+      if (MOCK_CHUNK_DELAY_MS > 0) await sleep(MOCK_CHUNK_DELAY_MS);
+    }
+
+    reportMockUsage(request, text);
+    return text;
+  },
+};
@@ -0,0 +1,111 @@
+import { AiProvider, GenerationRequest, ProviderError, throwForStatus } from './types';
+
+const OLLAMA_BASE_URL = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/$/, '');
+const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'llama3.1';
+const OLLAMA_FALLBACK_MODEL = process.env.OLLAMA_FALLBACK_MODEL || undefined;
+
+const postGenerate = (request: GenerationRequest, stream: boolean) =>
+  fetch(`${OLLAMA_BASE_URL}/api/generate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: request.model ?? OLLAMA_MODEL,
+      prompt: request.prompt,
+      ...(request.systemInstruction ? { system: request.systemInstruction } : {}),
+      ...(request.responseSchema ? { format: 'json' } : {}),
+      stream,
+      options: {
+        temperature: request.temperature ?? 0.7,
+        num_predict: request.maxOutputTokens ?? 2048,
+      },
+    }),
+    signal: request.signal,
+  });
+
+// Token counts reported on the final (`done`) object
+const reportUsage = (request: GenerationRequest, data: Record<string, unknown>): void => {
+  if (typeof data.prompt_eval_count !== 'number' && typeof data.eval_count !== 'number') return;
+  request.onUsage?.({
+    promptTokens: typeof data.prompt_eval_count === 'number' ? data.prompt_eval_count : 0,
+    outputTokens: typeof data.eval_count === 'number' ? data.eval_count : 0,
+  });
+};
+
+/**
+ * Reads a newline-delimited JSON body, calling back once per parsed line
+ */
+async function readNdjsonStream(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: Record<string, unknown>) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter((line) => line.trim()).forEach((line) => onLine(JSON.parse(line)));
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(JSON.parse(buffer));
+}
+
+/**
+ * Local models served by Ollama (or anything exposing its /api/generate endpoint)
+ */
+export const ollamaProvider: AiProvider = {
+  id: 'ollama',
+  label: 'Ollama',
+  model: OLLAMA_MODEL,
+  fallbackModel: OLLAMA_FALLBACK_MODEL,
+
+  // The endpoint has a sensible local default, so it is opt-in by URL
+  isConfigured: () => !!process.env.OLLAMA_BASE_URL || process.env.AI_PROVIDER === 'ollama',
+
+  async generate(request) {
+    const response = await postGenerate(request, false);
+
+    if (!response.ok) {
+      await throwForStatus(response, 'Ollama');
+    }
+
+    const data = await response.json();
+
+    if (typeof data?.response !== 'string' || !data.response) {
+      console.error('Invalid Ollama response structure:', data);
+      throw new ProviderError('No text content in Ollama response');
+    }
+
+    reportUsage(request, data);
+    return data.response;
+  },
+
+  async stream(request, onText) {
+    const response = await postGenerate(request, true);
+
+    if (!response.ok || !response.body) {
+      await throwForStatus(response, 'Ollama');
+    }
+
+    let text = '';
+    await readNdjsonStream(response.body!, (line) => {
+      if (typeof line.error === 'string') {
+        throw new ProviderError(`Error from Ollama: ${line.error}`);
+      }
+      if (line.done === true) reportUsage(request, line);
+      if (typeof line.response !== 'string' || !line.response) return;
+      text += line.response;
+      onText(line.response);
+    });
+
+    return text;
+  },
+};
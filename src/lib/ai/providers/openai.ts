@@ -0,0 +1,117 @@
+import { readSseStream } from '@/lib/ai/sse';
+import { TokenUsage } from '@/types';
+import { AiProvider, GenerationRequest, ProviderError, throwForStatus } from './types';
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+const OPENAI_FALLBACK_MODEL = process.env.OPENAI_FALLBACK_MODEL || undefined;
+
+const buildChatRequest = (request: GenerationRequest, stream: boolean) => ({
+  model: request.model ?? OPENAI_MODEL,
+  messages: [
+    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+    { role: 'user', content: request.prompt }
+  ],
+  temperature: request.temperature ?? 0.7,
+  max_tokens: request.maxOutputTokens ?? 2048,
+  // JSON mode; the schema itself is described in the prompt
+  ...(request.responseSchema ? { response_format: { type: 'json_object' } } : {}),
+  stream,
+  // Adds a final chunk with token counts to the stream
+  ...(stream ? { stream_options: { include_usage: true } } : {}),
+});
+
+/**
+ * Token counts of a chat completion
+ */
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * The fields read from a chat completion or stream chunk
+ */
+interface ChatCompletionBody {
+  choices?: {
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+  }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+// Token counts from a completion or the final stream chunk
+const getUsage = (data: ChatCompletionBody | undefined): TokenUsage | undefined =>
+  data?.usage
+    ? { promptTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+    : undefined;
+
+const postChatCompletion = (request: GenerationRequest, stream: boolean) =>
+  fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : {}),
+    },
+    body: JSON.stringify(buildChatRequest(request, stream)),
+    signal: request.signal,
+  });
+
+/**
+ * Any server implementing the OpenAI chat completions API
+ * (OpenAI itself, Azure-style gateways, vLLM, LM Studio, ...)
+ */
+export const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  model: OPENAI_MODEL,
+  fallbackModel: OPENAI_FALLBACK_MODEL,
+
+  // A custom base URL may point at a local server that needs no key
+  isConfigured: () => !!OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL,
+
+  async generate(request) {
+    const response = await postChatCompletion(request, false);
+
+    if (!response.ok) {
+      await throwForStatus(response, 'OpenAI-compatible');
+    }
+
+    const data: ChatCompletionBody | undefined = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+
+    if (typeof text !== 'string' || !text) {
+      console.error('Invalid chat completion structure:', data);
+      throw new ProviderError('No text content in chat completion');
+    }
+
+    const usage = getUsage(data);
+    if (usage) request.onUsage?.(usage);
+
+    return text;
+  },
+
+  async stream(request, onText) {
+    const response = await postChatCompletion(request, true);
+
+    if (!response.ok || !response.body) {
+      await throwForStatus(response, 'OpenAI-compatible');
+    }
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    await readSseStream(response.body!, ({ data }) => {
+      if (data === '[DONE]') return;
+      const parsed: ChatCompletionBody | undefined = JSON.parse(data);
+      usage = getUsage(parsed) ?? usage;
+      const chunk = parsed?.choices?.[0]?.delta?.content;
+      if (typeof chunk !== 'string' || !chunk) return;
+      text += chunk;
+      onText(chunk);
+    });
+
+    if (usage) request.onUsage?.(usage);
+    return text;
+  },
+};
@@ -0,0 +1,98 @@
+import { AiProviderId, TokenUsage } from '@/types';
+import { ResponseSchema } from '@/lib/ai/schema';
+
+/**
+ * A single text generation request, independent of the provider's wire format
+ */
+export interface GenerationRequest {
+  /** User message sent to the model: the delimited data the instructions refer to */
+  prompt: string;
+  /**
+   * Fixed instructions sent apart from the prompt, as the system instruction
+   * or system message where the provider supports one
+   */
+  systemInstruction?: string;
+  /** The user's question, used by providers that do not call a real model */
+  topic: string;
+  /** Model to call instead of the provider's configured one, e.g. its fallback model */
+  model?: string;
+  /** Number of branches asked for, used by providers that do not call a real model */
+  branchCount?: number;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Requests JSON output matching this schema where the provider supports it */
+  responseSchema?: ResponseSchema;
+  /** Aborts the upstream call, e.g. when the client cancels or disconnects */
+  signal?: AbortSignal;
+  /** Receives the token counts of each successful upstream call */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Common interface implemented by every LLM backend.
+ * Providers only return raw model text; the route turns it into a GeminiResponse.
+ */
+export interface AiProvider {
+  id: AiProviderId;
+  /** Human readable name used in logs */
+  label: string;
+  /** Model the provider calls, as configured for this deployment */
+  model: string;
+  /** Secondary model tried when the primary one stays unavailable after retries */
+  fallbackModel?: string;
+  /** Whether the deployment has the settings this provider needs */
+  isConfigured: () => boolean;
+  /** Generates the full response text in one call */
+  generate: (request: GenerationRequest) => Promise<string>;
+  /**
+   * Generates the response incrementally
+   *
+   * @param onText - Called with each new chunk of text
+   * @returns The complete response text
+   */
+  stream: (request: GenerationRequest, onText: (chunk: string) => void) => Promise<string>;
+}
+
+/**
+ * Error raised when a provider's upstream API rejects a request
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status returned by the upstream API, if any */
+    public readonly status?: number,
+    /** Delay the upstream API asked for before retrying, from its Retry-After header */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date
+ *
+ * @returns The delay in milliseconds, or undefined when absent or malformed
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Throws a ProviderError describing a failed upstream response
+ */
+export async function throwForStatus(response: Response, label: string): Promise<never> {
+  const errorData = await response.json().catch(() => null);
+  console.error(`${label} API error:`, response.status, errorData);
+  throw new ProviderError(
+    `Error from ${label} API: ${response.status} ${response.statusText}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
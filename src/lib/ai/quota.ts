@@ -0,0 +1,110 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { AiQuotaStatus } from '@/types';
+import { adminDb } from '@/lib/firebase-admin';
+import { AiError } from '@/lib/ai/errors';
+import { getRequestUserId } from '@/lib/ai/auth';
+
+/** Firestore collection holding one usage document per user, keyed by uid */
+export const AI_USAGE_COLLECTION = 'aiUsage';
+
+// Limits per user; both can be tuned per deployment
+const RATE_LIMIT_PER_MINUTE = Number(process.env.AI_RATE_LIMIT_PER_MINUTE ?? 10);
+const DAILY_QUOTA = Number(process.env.AI_DAILY_QUOTA ?? 200);
+const RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Usage counters stored in `aiUsage/{uid}`
+ */
+interface AiUsageDocument {
+  /** Start of the current rate limit window (epoch ms) */
+  windowStart: number;
+  /** Requests made in the current window */
+  windowCount: number;
+  /** UTC day the daily counter belongs to (YYYY-MM-DD) */
+  day: string;
+  /** Requests made on that day */
+  dayCount: number;
+}
+
+// Daily quotas reset at midnight UTC
+const nextUtcMidnight = (now: Date): string =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+
+// UTC day a request is counted against (YYYY-MM-DD)
+const utcDay = (now: Date): string => now.toISOString().slice(0, 10);
+
+/**
+ * Records one AI request for a user, enforcing the per-minute rate limit and
+ * the daily quota. The check and the increment run in one transaction so
+ * concurrent requests cannot both slip under the limit.
+ *
+ * @param uid - The signed-in user
+ * @param now - Current time, injectable for emulator tests
+ * @throws AiError `quota_exceeded` with `resetAt` when a limit has been reached
+ */
+export async function consumeAiQuota(uid: string, now: Date = new Date()): Promise<void> {
+  const ref = adminDb.collection(AI_USAGE_COLLECTION).doc(uid);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const usage = snapshot.exists ? snapshot.data() as AiUsageDocument : undefined;
+
+    const today = utcDay(now);
+    const windowOpen = !!usage && now.getTime() - usage.windowStart < RATE_WINDOW_MS;
+    const windowStart = windowOpen ? usage!.windowStart : now.getTime();
+    const windowCount = windowOpen ? usage!.windowCount : 0;
+    const dayCount = usage?.day === today ? usage.dayCount : 0;
+
+    if (dayCount >= DAILY_QUOTA) {
+      throw new AiError('quota_exceeded', `Daily limit of ${DAILY_QUOTA} AI requests reached`, {
+        resetAt: nextUtcMidnight(now),
+      });
+    }
+
+    if (windowCount >= RATE_LIMIT_PER_MINUTE) {
+      throw new AiError('quota_exceeded', `Rate limit of ${RATE_LIMIT_PER_MINUTE} AI requests per minute reached`, {
+        resetAt: new Date(windowStart + RATE_WINDOW_MS).toISOString(),
+      });
+    }
+
+    transaction.set(ref, {
+      windowStart,
+      windowCount: windowCount + 1,
+      day: today,
+      dayCount: dayCount + 1,
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+  });
+}
+
+/**
+ * Reads a user's limits and what is left of today's quota, without counting a request
+ *
+ * @param uid - The signed-in user
+ * @param now - Current time, injectable for emulator tests
+ */
+export async function getAiQuotaStatus(uid: string, now: Date = new Date()): Promise<AiQuotaStatus> {
+  const snapshot = await adminDb.collection(AI_USAGE_COLLECTION).doc(uid).get();
+  const usage = snapshot.exists ? snapshot.data() as AiUsageDocument : undefined;
+  const dayCount = usage?.day === utcDay(now) ? usage.dayCount : 0;
+
+  return {
+    dailyQuota: DAILY_QUOTA,
+    dailyRemaining: Math.max(0, DAILY_QUOTA - dayCount),
+    ratePerMinute: RATE_LIMIT_PER_MINUTE,
+    dailyResetAt: nextUtcMidnight(now),
+  };
+}
+/**
+ * Charges an AI call to the signed-in user: verifies their ID token and
+ * counts the call against their limits
+ *
+ * @param request - Incoming AI route request
+ * @returns The user's uid, for recording the tokens the call uses
+ * @throws AiError `unauthenticated` or `quota_exceeded`
+ */
+export async function chargeAiCall(request: Request): Promise<string> {
+  const uid = await getRequestUserId(request);
+  await consumeAiQuota(uid);
+  return uid;
+}
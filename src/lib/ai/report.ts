@@ -0,0 +1,152 @@
+import { ReportResponse } from '@/types';
+import { PROMPT_TEMPLATES, RenderedPrompt, renderPromptTemplate } from '@/lib/ai/templates';
+import {
+  MAX_CONTENT_LENGTH,
+  MAX_QUESTION_LENGTH,
+  MAX_TITLE_LENGTH,
+  formatDataBlock,
+  sanitizeText,
+} from '@/lib/ai/sanitize';
+
+/** Approximate number of prompt tokens the outline may use */
+export const REPORT_TOKEN_BUDGET = 12000;
+
+/** Most nodes accepted from the client; the rest of the tree is left out of the report */
+export const MAX_REPORT_NODES = 150;
+
+// Characters always kept from a node's text, however large the tree
+const MIN_NODE_CONTENT_LENGTH = 200;
+
+// How far each level of the tree is indented in the outline
+const INDENT = '  ';
+
+/**
+ * One node of the tree sent to the report and ask routes. `ref` is a short
+ * reference the model uses to name the node in its output.
+ */
+export interface OutlineNode {
+  ref: string;
+  /** Reference of the node it branched from; undefined for a root */
+  parentRef?: string;
+  title: string;
+  /** Set once the node has been explored */
+  question?: string;
+  /** The node's answer, or its description while unexplored */
+  content: string;
+}
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}...` : text;
+
+/**
+ * Validates the `nodes` field of a request body, dropping malformed entries
+ * and repeated references. A parent that is not listed before its child is
+ * dropped, so the nodes always form a tree in depth-first order.
+ *
+ * @param value - Untrusted value from the request body
+ * @param maxNodes - Nodes kept; the rest of the tree is dropped
+ * @returns Well-formed nodes, in the order they were sent
+ */
+export function normalizeOutlineNodes(value: unknown, maxNodes: number = MAX_REPORT_NODES): OutlineNode[] {
+  if (!Array.isArray(value)) return [];
+
+  const refs = new Set<string>();
+  const nodes: OutlineNode[] = [];
+
+  for (const entry of value) {
+    if (nodes.length >= maxNodes) break;
+    if (!entry || typeof entry !== 'object') continue;
+
+    const { ref, parentRef, title, question, content } = entry as Record<string, unknown>;
+    const cleanRef = typeof ref === 'string' ? sanitizeText(ref, 20) : '';
+    if (!/^n\d+$/.test(cleanRef) || refs.has(cleanRef)) continue;
+
+    const node: OutlineNode = {
+      ref: cleanRef,
+      parentRef: typeof parentRef === 'string' && refs.has(parentRef) ? parentRef : undefined,
+      title: typeof title === 'string' ? sanitizeText(title, MAX_TITLE_LENGTH) : '',
+      question: typeof question === 'string' ? sanitizeText(question, MAX_QUESTION_LENGTH) || undefined : undefined,
+      content: typeof content === 'string' ? sanitizeText(content, MAX_CONTENT_LENGTH) : '',
+    };
+    if (!node.title && !node.question) continue;
+
+    refs.add(cleanRef);
+    nodes.push(node);
+  }
+
+  return nodes;
+}
+
+/**
+ * Renders the tree as an indented outline. Every node keeps its title and
+ * question; answers are shortened evenly so the outline fits the token budget.
+ *
+ * @param title - Title of the exploration
+ * @param nodes - Nodes in depth-first order, as returned by normalizeOutlineNodes
+ * @param tokenBudget - Approximate maximum size of the outline
+ */
+export function buildReportOutline(
+  title: string,
+  nodes: OutlineNode[],
+  tokenBudget: number = REPORT_TOKEN_BUDGET
+): string {
+  // About four characters per token, shared between the nodes
+  const contentLength = Math.max(
+    MIN_NODE_CONTENT_LENGTH,
+    Math.floor((tokenBudget * 4) / Math.max(nodes.length, 1))
+  );
+  const depths = new Map<string, number>();
+
+  const lines = nodes.map((node) => {
+    const depth = node.parentRef ? (depths.get(node.parentRef) ?? 0) + 1 : 0;
+    depths.set(node.ref, depth);
+
+    const indent = INDENT.repeat(depth);
+    const entry = [`${indent}[${node.ref}] Topic: ${node.title || node.question}`];
+    if (node.question) {
+      entry.push(`${indent}     Question: ${node.question}`);
+      if (node.content) entry.push(`${indent}     Answer: ${truncate(node.content, contentLength)}`);
+    } else if (node.content) {
+      entry.push(`${indent}     Not explored yet: ${truncate(node.content, contentLength)}`);
+    }
+    return entry.join('\n');
+  });
+
+  return [`Exploration: ${title || 'Untitled'}`, '', ...lines].join('\n');
+}
+
+/**
+ * Builds the prompt for an exploration report. The outline goes in a data
+ * block of the user message.
+ *
+ * @param title - Title of the exploration
+ * @param nodes - Nodes in depth-first order, as returned by normalizeOutlineNodes
+ */
+export function buildReportPrompt(title: string, nodes: OutlineNode[]): RenderedPrompt {
+  return renderPromptTemplate(PROMPT_TEMPLATES.summarizeReport, {
+    outline: formatDataBlock('exploration_outline', buildReportOutline(title, nodes)),
+  });
+}
+
+/**
+ * Drops sections that name a node missing from the outline, or one already
+ * covered, and puts the rest in outline order
+ *
+ * @param report - Validated model output
+ * @param nodes - The nodes the report was generated from
+ */
+export function matchReportSections(report: ReportResponse, nodes: OutlineNode[]): ReportResponse {
+  const order = new Map(nodes.map((node, index) => [node.ref, index]));
+  const seen = new Set<string>();
+
+  const sections = report.sections
+    .map((section) => ({ ...section, ref: section.ref.replace(/^\[|\]$/g, '') }))
+    .filter((section) => {
+      if (!order.has(section.ref) || seen.has(section.ref)) return false;
+      seen.add(section.ref);
+      return true;
+    })
+    .sort((a, b) => order.get(a.ref)! - order.get(b.ref)!);
+
+  return { summary: report.summary, sections };
+}
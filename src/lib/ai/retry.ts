@@ -0,0 +1,169 @@
+import { AiProvider, GenerationRequest, ProviderError } from '@/lib/ai/providers';
+import { isCancelledError } from '@/lib/ai/errors';
+import { logAiEvent } from '@/lib/ai/log';
+
+// Attempts per model, including the first one
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.AI_RETRY_MAX_ATTEMPTS ?? 3));
+const BASE_DELAY_MS = Number(process.env.AI_RETRY_BASE_DELAY_MS ?? 500);
+// A Retry-After longer than this is not worth waiting for inside one request
+const MAX_DELAY_MS = Number(process.env.AI_RETRY_MAX_DELAY_MS ?? 8000);
+
+/**
+ * Which model produced a response
+ */
+export interface GenerationOutcome {
+  /** The complete response text */
+  text: string;
+  /** Model that answered */
+  model: string;
+  /** Whether the provider's fallback model answered instead of the primary one */
+  usedFallback: boolean;
+}
+
+/**
+ * Rate limits, server errors and network failures are worth another try;
+ * anything else (bad request, bad key, cancellation) will fail the same way again
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isCancelledError(error)) return false;
+  if (error instanceof ProviderError) {
+    return error.status === 429 || (error.status !== undefined && error.status >= 500);
+  }
+  return error instanceof TypeError;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with full jitter, or
+ * the upstream's Retry-After when it asks for longer
+ *
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ */
+export function getRetryDelay(attempt: number, error: unknown): number {
+  const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = Math.random() * backoff;
+  const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+  return retryAfter !== undefined ? Math.max(retryAfter, jittered) : jittered;
+}
+
+// Resolves after `ms`, or rejects as soon as the request is cancelled
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one call against a single model, retrying retryable failures
+ *
+ * @param call - The provider call; `canRetry` lets streaming calls opt out once output was sent
+ * @throws The last error when attempts run out or it is not retryable
+ */
+async function callWithRetry(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  call: (generation: GenerationRequest) => Promise<string>,
+  canRetry: () => boolean
+): Promise<string> {
+  const model = generation.model ?? provider.model;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call(generation);
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryableError(error) || !canRetry()) throw error;
+
+      const delayMs = getRetryDelay(attempt, error);
+      if (delayMs > MAX_DELAY_MS) throw error;
+
+      logAiEvent('WARNING', 'ai.retry', {
+        provider: provider.id,
+        model,
+        attempt,
+        delayMs: Math.round(delayMs),
+        status: error instanceof ProviderError ? error.status : undefined,
+        error,
+      });
+      await sleep(delayMs, generation.signal);
+    }
+  }
+}
+
+/**
+ * Tries the primary model with retries, then the provider's fallback model
+ * (if it has one) when the primary stays unavailable
+ */
+async function callWithFallback(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  call: (generation: GenerationRequest) => Promise<string>,
+  canRetry: () => boolean
+): Promise<GenerationOutcome> {
+  const primary = generation.model ?? provider.model;
+
+  try {
+    const text = await callWithRetry(provider, generation, call, canRetry);
+    return { text, model: primary, usedFallback: false };
+  } catch (error) {
+    const fallback = provider.fallbackModel;
+    if (!fallback || fallback === primary || !isRetryableError(error) || !canRetry()) throw error;
+
+    logAiEvent('WARNING', 'ai.fallback', {
+      provider: provider.id,
+      model: primary,
+      fallbackModel: fallback,
+      error,
+    });
+
+    const text = await callWithRetry(provider, { ...generation, model: fallback }, call, canRetry);
+    logAiEvent('INFO', 'ai.fallback_succeeded', { provider: provider.id, model: fallback });
+    return { text, model: fallback, usedFallback: true };
+  }
+}
+
+/**
+ * Generates a complete response, retrying upstream failures with backoff and
+ * falling back to the provider's secondary model
+ *
+ * @param provider - Provider to call
+ * @param generation - The request; `generation.model` overrides the primary model
+ * @returns The text and the model that produced it
+ */
+export function generateWithRetry(provider: AiProvider, generation: GenerationRequest): Promise<GenerationOutcome> {
+  return callWithFallback(provider, generation, (request) => provider.generate(request), () => true);
+}
+
+/**
+ * Streams a response like `provider.stream`, with the same retries and
+ * fallback. Once any text has reached `onText` a failure is final, since the
+ * client has already shown part of the answer.
+ *
+ * @param provider - Provider to call
+ * @param generation - The request
+ * @param onText - Called with each new chunk of text
+ * @returns The complete text and the model that produced it
+ */
+export function streamWithRetry(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  onText: (chunk: string) => void
+): Promise<GenerationOutcome> {
+  let started = false;
+
+  return callWithFallback(
+    provider,
+    generation,
+    (request) => provider.stream(request, (chunk) => {
+      started = true;
+      onText(chunk);
+    }),
+    () => !started
+  );
+}
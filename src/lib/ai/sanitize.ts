@@ -0,0 +1,79 @@
+/** Longest question accepted by the explore and branch routes */
+export const MAX_QUESTION_LENGTH = 1000;
+
+/** Longest chat message accepted by the chat route */
+export const MAX_MESSAGE_LENGTH = 2000;
+
+/** Characters kept from a topic or branch title taken from the request */
+export const MAX_TITLE_LENGTH = 200;
+
+/** Characters kept from a branch description taken from the request */
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+/** Characters kept from an answer or chat turn taken from the request */
+export const MAX_CONTENT_LENGTH = 6000;
+
+/**
+ * Tags that delimit user- and model-derived text in a prompt. The system
+ * instruction tells the model that their contents are data, never instructions.
+ */
+export const DATA_BLOCK_TAGS = [
+  'question',
+  'exploration_path',
+  'replaced_subtopic',
+  'kept_subtopics',
+  'conversation',
+  'message',
+  'previous_response',
+  'exploration_outline',
+  'exploration_notes',
+  'selected_topics',
+] as const;
+
+export type DataBlockTag = (typeof DATA_BLOCK_TAGS)[number];
+
+// C0 and C1 control characters other than tab and newline
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g;
+
+// Zero-width characters and bidirectional overrides, which can hide text from a reader
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+// Opening or closing data block tags, however they are spaced or capitalised
+const DATA_BLOCK_TAG_PATTERN = new RegExp(`<\\s*/?\\s*(?:${DATA_BLOCK_TAGS.join('|')})\\s*>`, 'gi');
+
+/**
+ * Removes control and invisible characters, keeping tabs and line breaks
+ *
+ * @param text - Untrusted text
+ * @returns The text with `\r\n` and `\r` line breaks normalised to `\n`
+ */
+export const stripControlCharacters = (text: string): string =>
+  text.replace(/\r\n?/g, '\n').replace(CONTROL_CHARACTERS, '').replace(INVISIBLE_CHARACTERS, '');
+
+/**
+ * Cleans a string from a request body before it is used in a prompt
+ *
+ * @param value - Untrusted text
+ * @param maxLength - Characters kept; anything beyond is dropped
+ * @returns The trimmed text, or an empty string when there is nothing left
+ */
+export function sanitizeText(value: string, maxLength: number): string {
+  return stripControlCharacters(value).trim().slice(0, maxLength).trim();
+}
+
+/**
+ * Wraps user- or model-derived text in a data block. Any data block tags in
+ * the text are removed so it cannot close its block early or open another.
+ *
+ * @param tag - Name of the block, as referred to by the system instruction
+ * @param text - The data; an empty string renders an empty block
+ */
+export function formatDataBlock(tag: DataBlockTag, text: string): string {
+  let data = text;
+  // Repeat until nothing changes, so removing one tag cannot join the text around it into another
+  for (let previous = ''; previous !== data; ) {
+    previous = data;
+    data = data.replace(DATA_BLOCK_TAG_PATTERN, '');
+  }
+  return `<${tag}>\n${data}\n</${tag}>`;
+}
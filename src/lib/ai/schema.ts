@@ -0,0 +1,458 @@
+import {
+  Branch,
+  CrossLinkRelation,
+  CrossLinkResponse,
+  CrossLinkResponseItem,
+  GeminiResponse,
+  ReportResponse,
+  ReportResponseSection,
+  SynthesisResponse,
+} from '@/types';
+import { CROSS_LINK_RELATION_OPTIONS } from '@/config/aiConfig';
+import { PROMPT_TEMPLATES, RenderedPrompt, renderPromptTemplate } from '@/lib/ai/templates';
+import { AiProvider, GenerationRequest } from '@/lib/ai/providers';
+import { AiError } from '@/lib/ai/errors';
+import { generateWithRetry } from '@/lib/ai/retry';
+import { formatDataBlock } from '@/lib/ai/sanitize';
+
+/**
+ * Subset of the OpenAPI schema object accepted by Gemini's `responseSchema`
+ */
+export type ResponseSchema =
+  | { type: 'STRING'; description?: string }
+  | { type: 'ARRAY'; items: ResponseSchema; description?: string }
+  | {
+      type: 'OBJECT';
+      properties: Record<string, ResponseSchema>;
+      required: string[];
+      propertyOrdering?: string[];
+      description?: string;
+    };
+
+/**
+ * Schema for an object type whose properties are exactly the keys of `T`,
+ * so the schema cannot drift from the TypeScript interface it describes
+ */
+type ObjectSchemaFor<T> = {
+  type: 'OBJECT';
+  properties: Record<keyof T & string, ResponseSchema>;
+  required: (keyof T & string)[];
+  propertyOrdering: (keyof T & string)[];
+};
+
+export const BRANCH_SCHEMA: ObjectSchemaFor<Branch> = {
+  type: 'OBJECT',
+  properties: {
+    title: { type: 'STRING', description: 'Short subtopic title (5-8 words)' },
+    description: { type: 'STRING', description: 'Informative description of the subtopic (2-3 sentences)' },
+  },
+  required: ['title', 'description'],
+  propertyOrdering: ['title', 'description'],
+};
+
+/**
+ * Structured output schema for an explore answer, derived from GeminiResponse.
+ * `answer` comes first so it can be streamed before the branches.
+ */
+export const EXPLORE_RESPONSE_SCHEMA: ObjectSchemaFor<GeminiResponse> = {
+  type: 'OBJECT',
+  properties: {
+    answer: { type: 'STRING', description: 'Complete answer to the question' },
+    branches: { type: 'ARRAY', items: BRANCH_SCHEMA, description: 'Subtopics to explore next' },
+  },
+  required: ['answer', 'branches'],
+  propertyOrdering: ['answer', 'branches'],
+};
+
+const REPORT_SECTION_SCHEMA: ObjectSchemaFor<ReportResponseSection> = {
+  type: 'OBJECT',
+  properties: {
+    ref: { type: 'STRING', description: 'Reference of the explored topic, exactly as in the outline (e.g. n3)' },
+    summary: { type: 'STRING', description: 'What was learned in this topic and the topics below it (2-4 sentences)' },
+  },
+  required: ['ref', 'summary'],
+  propertyOrdering: ['ref', 'summary'],
+};
+
+/**
+ * Structured output schema for an exploration report, derived from ReportResponse
+ */
+export const REPORT_SCHEMA: ObjectSchemaFor<ReportResponse> = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING', description: 'Executive summary of the whole exploration' },
+    sections: { type: 'ARRAY', items: REPORT_SECTION_SCHEMA, description: 'One section per explored topic, in outline order' },
+  },
+  required: ['summary', 'sections'],
+  propertyOrdering: ['summary', 'sections'],
+};
+
+/**
+ * Structured output schema for a synthesis of several nodes, derived from SynthesisResponse
+ */
+export const SYNTHESIS_SCHEMA: ObjectSchemaFor<SynthesisResponse> = {
+  type: 'OBJECT',
+  properties: {
+    title: { type: 'STRING', description: 'Short title naming the combined idea (5-8 words)' },
+    insight: { type: 'STRING', description: 'How the selected topics connect (one or two short paragraphs)' },
+  },
+  required: ['title', 'insight'],
+  propertyOrdering: ['title', 'insight'],
+};
+
+const CROSS_LINK_SCHEMA_ITEM: ObjectSchemaFor<CrossLinkResponseItem> = {
+  type: 'OBJECT',
+  properties: {
+    source: { type: 'STRING', description: 'Reference of the first topic, exactly as in the outline (e.g. n3)' },
+    target: { type: 'STRING', description: 'Reference of the related topic in another part of the tree' },
+    relation: { type: 'STRING', description: 'One of: contradicts, example_of, same_concept' },
+    reason: { type: 'STRING', description: 'Why the two topics are related (one sentence)' },
+  },
+  required: ['source', 'target', 'relation', 'reason'],
+  propertyOrdering: ['source', 'target', 'relation', 'reason'],
+};
+
+/**
+ * Structured output schema for suggested cross-links, derived from CrossLinkResponse
+ */
+export const CROSS_LINK_SCHEMA: ObjectSchemaFor<CrossLinkResponse> = {
+  type: 'OBJECT',
+  properties: {
+    links: { type: 'ARRAY', items: CROSS_LINK_SCHEMA_ITEM, description: 'Related topics in different parts of the tree; empty when there are none' },
+  },
+  required: ['links'],
+  propertyOrdering: ['links'],
+};
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Collects problems with a single branch object, labelled with its location
+const validateBranch = (branch: unknown, label: string, errors: string[]): void => {
+  if (!branch || typeof branch !== 'object' || Array.isArray(branch)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+  const { title, description } = branch as Record<string, unknown>;
+  if (!isNonEmptyString(title)) errors.push(`${label}.title must be a non-empty string`);
+  if (!isNonEmptyString(description)) errors.push(`${label}.description must be a non-empty string`);
+};
+
+const trimBranch = ({ title, description }: Branch): Branch => ({
+  title: title.trim(),
+  description: description.trim(),
+});
+
+/**
+ * Runtime check that a parsed value matches EXPLORE_RESPONSE_SCHEMA
+ *
+ * @param value - Parsed JSON from the model
+ * @returns The typed response, or a list of human readable problems
+ */
+export function validateExploreResponse(value: unknown): ValidationResult<GeminiResponse> {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const data = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(data.answer)) {
+    errors.push('"answer" must be a non-empty string');
+  }
+
+  if (!Array.isArray(data.branches)) {
+    errors.push('"branches" must be an array');
+  } else {
+    if (data.branches.length === 0) {
+      errors.push('"branches" must contain at least one item');
+    }
+
+    data.branches.forEach((branch, index) => validateBranch(branch, `branches[${index}]`, errors));
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      answer: (data.answer as string).trim(),
+      branches: (data.branches as Branch[]).map(trimBranch),
+    },
+  };
+}
+
+/**
+ * Runtime check that a parsed value matches BRANCH_SCHEMA
+ *
+ * @param value - Parsed JSON from the model
+ * @returns The typed branch, or a list of human readable problems
+ */
+export function validateBranchResponse(value: unknown): ValidationResult<Branch> {
+  const errors: string[] = [];
+  validateBranch(value, 'Response', errors);
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: trimBranch(value as Branch) };
+}
+
+/**
+ * Runtime check that a parsed value matches REPORT_SCHEMA. Whether the
+ * section references exist in the outline is left to the caller.
+ *
+ * @param value - Parsed JSON from the model
+ * @returns The typed report, or a list of human readable problems
+ */
+export function validateReportResponse(value: unknown): ValidationResult<ReportResponse> {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const data = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(data.summary)) {
+    errors.push('"summary" must be a non-empty string');
+  }
+
+  if (!Array.isArray(data.sections)) {
+    errors.push('"sections" must be an array');
+  } else {
+    data.sections.forEach((section, index) => {
+      const label = `sections[${index}]`;
+      if (!section || typeof section !== 'object' || Array.isArray(section)) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      const { ref, summary } = section as Record<string, unknown>;
+      if (!isNonEmptyString(ref)) errors.push(`${label}.ref must be a non-empty string`);
+      if (!isNonEmptyString(summary)) errors.push(`${label}.summary must be a non-empty string`);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      summary: (data.summary as string).trim(),
+      sections: (data.sections as ReportResponseSection[]).map(({ ref, summary }) => ({
+        ref: ref.trim(),
+        summary: summary.trim(),
+      })),
+    },
+  };
+}
+
+/**
+ * Runtime check that a parsed value matches SYNTHESIS_SCHEMA
+ *
+ * @param value - Parsed JSON from the model
+ * @returns The typed synthesis, or a list of human readable problems
+ */
+export function validateSynthesisResponse(value: unknown): ValidationResult<SynthesisResponse> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const { title, insight } = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!isNonEmptyString(title)) errors.push('"title" must be a non-empty string');
+  if (!isNonEmptyString(insight)) errors.push('"insight" must be a non-empty string');
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: { title: (title as string).trim(), insight: (insight as string).trim() } };
+}
+
+/**
+ * Runtime check that a parsed value matches CROSS_LINK_SCHEMA. Whether the
+ * references exist in the outline is left to the caller.
+ *
+ * @param value - Parsed JSON from the model
+ * @returns The typed links, or a list of human readable problems
+ */
+export function validateCrossLinkResponse(value: unknown): ValidationResult<CrossLinkResponse> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const { links } = value as Record<string, unknown>;
+  if (!Array.isArray(links)) {
+    return { ok: false, errors: ['"links" must be an array'] };
+  }
+
+  const relations = CROSS_LINK_RELATION_OPTIONS.map(({ id }) => id as string);
+  const errors: string[] = [];
+  links.forEach((link, index) => {
+    const label = `links[${index}]`;
+    if (!link || typeof link !== 'object' || Array.isArray(link)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { source, target, relation, reason } = link as Record<string, unknown>;
+    if (!isNonEmptyString(source)) errors.push(`${label}.source must be a non-empty string`);
+    if (!isNonEmptyString(target)) errors.push(`${label}.target must be a non-empty string`);
+    if (typeof relation !== 'string' || !relations.includes(relation.trim())) {
+      errors.push(`${label}.relation must be one of ${relations.join(', ')}`);
+    }
+    if (!isNonEmptyString(reason)) errors.push(`${label}.reason must be a non-empty string`);
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      links: (links as CrossLinkResponseItem[]).map(({ source, target, relation, reason }) => ({
+        source: source.trim(),
+        target: target.trim(),
+        relation: relation.trim() as CrossLinkRelation,
+        reason: reason.trim(),
+      })),
+    },
+  };
+}
+
+/**
+ * Parses model output as JSON and validates it.
+ * Structured output is plain JSON, but a surrounding markdown fence is
+ * tolerated for providers that ignore the requested MIME type.
+ *
+ * @param text - Raw model output
+ * @param validate - Validator for the expected shape
+ */
+function parseJsonOutput<T>(text: string, validate: (value: unknown) => ValidationResult<T>): ValidationResult<T> {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(unfenced);
+  } catch (error) {
+    return {
+      ok: false,
+      errors: [`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  return validate(parsed);
+}
+
+/**
+ * Parses and validates an explore answer
+ *
+ * @param text - Raw model output
+ */
+export const parseExploreResponse = (text: string): ValidationResult<GeminiResponse> =>
+  parseJsonOutput(text, validateExploreResponse);
+
+/**
+ * Parses and validates a single generated branch
+ *
+ * @param text - Raw model output
+ */
+export const parseBranchResponse = (text: string): ValidationResult<Branch> =>
+  parseJsonOutput(text, validateBranchResponse);
+
+/**
+ * Parses and validates an exploration report
+ *
+ * @param text - Raw model output
+ */
+export const parseReportResponse = (text: string): ValidationResult<ReportResponse> =>
+  parseJsonOutput(text, validateReportResponse);
+
+/**
+ * Parses and validates a synthesis of several nodes
+ *
+ * @param text - Raw model output
+ */
+export const parseSynthesisResponse = (text: string): ValidationResult<SynthesisResponse> =>
+  parseJsonOutput(text, validateSynthesisResponse);
+
+/**
+ * Parses and validates suggested cross-links
+ *
+ * @param text - Raw model output
+ */
+export const parseCrossLinkResponse = (text: string): ValidationResult<CrossLinkResponse> =>
+  parseJsonOutput(text, validateCrossLinkResponse);
+
+/** Shape reminders used in repair prompts */
+export const EXPLORE_RESPONSE_SHAPE = 'a single JSON object with an "answer" string and a "branches" array of { "title", "description" } objects';
+export const BRANCH_RESPONSE_SHAPE = 'a single JSON object with a "title" string and a "description" string';
+export const REPORT_RESPONSE_SHAPE = 'a single JSON object with a "summary" string and a "sections" array of { "ref", "summary" } objects';
+export const SYNTHESIS_RESPONSE_SHAPE = 'a single JSON object with a "title" string and an "insight" string';
+export const CROSS_LINK_RESPONSE_SHAPE = 'a single JSON object with a "links" array of { "source", "target", "relation", "reason" } objects';
+
+/**
+ * Builds the follow-up prompt used for the single repair attempt. It keeps
+ * the original system instruction, and the invalid output goes in a data block.
+ *
+ * @param original - The prompt that produced the invalid output
+ * @param invalidOutput - What the model returned
+ * @param errors - Validation problems to fix
+ * @param shape - Plain description of the expected JSON
+ */
+export function buildRepairPrompt(
+  original: RenderedPrompt,
+  invalidOutput: string,
+  errors: string[],
+  shape: string = EXPLORE_RESPONSE_SHAPE
+): RenderedPrompt {
+  const { prompt } = renderPromptTemplate(PROMPT_TEMPLATES.repairOutput, {
+    prompt: original.prompt,
+    output: formatDataBlock('previous_response', invalidOutput),
+    errors: errors.map((error) => `- ${error}`).join('\n'),
+    shape,
+  });
+  return { systemInstruction: original.systemInstruction, prompt };
+}
+
+/**
+ * Validates model output with `parse`. When it does not match, the
+ * validation errors are fed back to the model for one repair attempt.
+ *
+ * @param provider - Provider that produced the output
+ * @param generation - The request that produced it, naming the model that answered
+ * @param text - Raw model output
+ * @param parse - Parser for the expected response, e.g. parseReportResponse
+ * @param shape - Plain description of the expected JSON, for the repair prompt
+ * @returns The parsed value, the raw text it was parsed from, and whether that text is a repair
+ * @throws AiError `invalid_output` when the output is still invalid after the repair attempt
+ */
+export async function validateWithRepair<T>(
+  provider: AiProvider,
+  generation: GenerationRequest,
+  text: string,
+  parse: (text: string) => ValidationResult<T>,
+  shape: string
+): Promise<{ value: T; text: string; repaired: boolean }> {
+  const result = parse(text);
+  if (result.ok) return { value: result.value, text, repaired: false };
+
+  console.warn(`Invalid ${provider.label} output, attempting repair:`, result.errors);
+
+  const { text: repairedText } = await generateWithRetry(provider, {
+    ...generation,
+    ...buildRepairPrompt(generation, text, result.errors, shape),
+  });
+  const repaired = parse(repairedText);
+  if (repaired.ok) return { value: repaired.value, text: repairedText, repaired: true };
+
+  console.error(`${provider.label} output still invalid after repair:`, repaired.errors);
+  throw new AiError('invalid_output', `Invalid model output: ${repaired.errors.join('; ')}`);
+}
@@ -0,0 +1,123 @@
+/**
+ * Minimal Server-Sent Events helpers shared by the AI route (which both
+ * consumes Gemini's SSE stream and produces its own) and the browser client.
+ */
+
+export interface SseEvent {
+  /** Event name, `message` when the block has no `event:` line */
+  event: string;
+  /** Raw data payload, multiple `data:` lines joined with newlines */
+  data: string;
+}
+
+/**
+ * Encodes a single SSE event with a JSON payload
+ *
+ * @param event - Event name
+ * @param data - Payload, serialized as JSON
+ * @returns The event block including the terminating blank line
+ */
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses one SSE block (the text between two blank lines)
+ */
+function parseSseBlock(block: string): SseEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Reads an SSE response body to the end, invoking the callback for every event
+ *
+ * @param body - Response body stream
+ * @param onEvent - Called once per complete event, in order
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let separator = /\r?\n\r?\n/.exec(buffer);
+    while (separator) {
+      const parsed = parseSseBlock(buffer.slice(0, separator.index));
+      if (parsed) onEvent(parsed);
+      buffer = buffer.slice(separator.index + separator[0].length);
+      separator = /\r?\n\r?\n/.exec(buffer);
+    }
+  }
+
+  buffer += decoder.decode();
+  const parsed = parseSseBlock(buffer);
+  if (parsed) onEvent(parsed);
+}
+
+/**
+ * Creates a streaming SSE response. `run` receives a `send` function and an
+ * AbortSignal that fires when either the incoming request is aborted or the
+ * client stops reading, so upstream calls can be cancelled with it. Nothing
+ * is sent once the client has gone away.
+ *
+ * @param requestSignal - Signal of the incoming request
+ * @param run - Produces the events
+ * @param toErrorPayload - Converts a failure of `run` into the `error` event payload
+ */
+export function createSseResponse(
+  requestSignal: AbortSignal | undefined,
+  run: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>,
+  toErrorPayload: (error: unknown) => unknown
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal?.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+      };
+
+      try {
+        await run(send, abortController.signal);
+      } catch (error) {
+        send('error', toErrorPayload(error));
+      } finally {
+        if (!abortController.signal.aborted) controller.close();
+      }
+    },
+
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
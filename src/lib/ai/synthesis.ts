@@ -0,0 +1,71 @@
+import { AncestorContext } from '@/types';
+import { normalizeAncestors } from '@/lib/ai/context';
+import { formatDataBlock } from '@/lib/ai/sanitize';
+import {
+  CustomTemplateRequest,
+  PROMPT_TEMPLATES,
+  RenderedPrompt,
+  renderCustomStyle,
+  renderPromptTemplate,
+} from '@/lib/ai/templates';
+
+/** Fewest nodes a synthesis combines */
+export const MIN_SYNTHESIS_SOURCES = 2;
+
+/** Most nodes a synthesis combines; further ones are dropped */
+export const MAX_SYNTHESIS_SOURCES = 8;
+
+// Characters kept from each selected node's answer
+const MAX_SOURCE_CONTENT_LENGTH = 2000;
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}...` : text;
+
+const formatSource = (source: AncestorContext, index: number): string => {
+  const lines = [`${index + 1}. Topic: ${source.title || source.question}`];
+  if (source.question) lines.push(`   Question: ${source.question}`);
+  if (source.content) lines.push(`   ${source.question ? 'Answer' : 'Description'}: ${truncate(source.content, MAX_SOURCE_CONTENT_LENGTH)}`);
+  return lines.join('\n');
+};
+
+/**
+ * Validates the `sources` field of a request body: the nodes being combined,
+ * in the order the user selected them. They have the shape of path entries
+ * and are cleaned the same way.
+ *
+ * @param value - Untrusted value from the request body
+ */
+export const normalizeSynthesisSources = (value: unknown): AncestorContext[] =>
+  normalizeAncestors(Array.isArray(value) ? value.slice(0, MAX_SYNTHESIS_SOURCES) : value);
+
+/**
+ * Renders the selected nodes as the topics the insight is drawn from
+ *
+ * @param sources - Nodes chosen by normalizeSynthesisSources
+ */
+export const formatSynthesisSources = (sources: AncestorContext[]): string =>
+  sources.map(formatSource).join('\n\n');
+
+/**
+ * Builds the prompt for combining several nodes into one insight. The
+ * selected topics and the exploration's question go in data blocks of the
+ * user message.
+ *
+ * @param sources - The nodes being combined
+ * @param question - The question that started the exploration, if any, for context
+ * @param customTemplate - The user's template chosen for the exploration, if any
+ */
+export function buildSynthesisPrompt(
+  sources: AncestorContext[],
+  question: string,
+  customTemplate?: CustomTemplateRequest
+): RenderedPrompt {
+  return renderPromptTemplate(PROMPT_TEMPLATES.synthesizeNodes, {
+    topics: formatDataBlock('selected_topics', formatSynthesisSources(sources)),
+    question: question ? `${formatDataBlock('question', question)}\n\n` : '',
+    questionNote: question
+      ? ' The <question> block holds the question that started the exploration, for context.'
+      : '',
+    style: renderCustomStyle(customTemplate, { question: 'the question in the <question> block' }),
+  });
+}
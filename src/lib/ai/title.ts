@@ -0,0 +1,75 @@
+import { MAX_TITLE_LENGTH, formatDataBlock, sanitizeText } from '@/lib/ai/sanitize';
+import { PROMPT_TEMPLATES, RenderedPrompt, renderPromptTemplate } from '@/lib/ai/templates';
+
+/** Most words kept from a generated title */
+export const MAX_GENERATED_TITLE_WORDS = 6;
+
+/** Longest generated title kept, in characters */
+export const MAX_GENERATED_TITLE_LENGTH = 60;
+
+// Characters of the first answer shown to the model; the opening says what it is about
+const TITLE_ANSWER_LENGTH = 1500;
+
+// Most explored topics listed, and the most accepted from the client
+const MAX_TITLE_TOPICS = 20;
+
+/**
+ * Validates the `topics` field of a request body: titles of the nodes
+ * explored so far
+ *
+ * @param value - Untrusted value from the request body
+ */
+export function normalizeTitleTopics(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((topic): topic is string => typeof topic === 'string')
+    .map((topic) => sanitizeText(topic, MAX_TITLE_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_TITLE_TOPICS);
+}
+
+/**
+ * Builds the prompt for naming an exploration. The question, answer and
+ * topics go in data blocks of the user message.
+ *
+ * @param question - The question that started the exploration
+ * @param answer - Its answer, if there is one yet
+ * @param topics - Titles of the nodes explored since
+ */
+export function buildTitlePrompt(question: string, answer: string, topics: string[]): RenderedPrompt {
+  const notes = [
+    answer ? `Answer: ${answer.slice(0, TITLE_ANSWER_LENGTH)}` : '',
+    topics.length > 0 ? `Topics explored:\n${topics.map((topic) => `- ${topic}`).join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return renderPromptTemplate(PROMPT_TEMPLATES.explorationTitle, {
+    question: formatDataBlock('question', question),
+    notes: formatDataBlock('exploration_notes', notes || '(none yet)'),
+  });
+}
+
+/**
+ * Turns the model's reply into a title: the first line, without a label,
+ * quotes, markdown or trailing punctuation, and at most
+ * MAX_GENERATED_TITLE_WORDS words
+ *
+ * @param text - Raw model output
+ * @returns The title, or an empty string when nothing usable is left
+ */
+export function cleanGeneratedTitle(text: string): string {
+  const firstLine = sanitizeText(text, MAX_TITLE_LENGTH).split('\n')[0] ?? '';
+  const cleaned = firstLine
+    .replace(/^\s*(?:title\s*:\s*)/i, '')
+    .replace(/[*_#`]/g, '')
+    // Opening quotes, and closing quotes or punctuation in any order
+    .replace(/^["'\u201C\u2018\s]+|["'\u201D\u2019.!?:;,\s]+$/g, '')
+    .trim();
+
+  return cleaned
+    .split(/\s+/)
+    .slice(0, MAX_GENERATED_TITLE_WORDS)
+    .join(' ')
+    .slice(0, MAX_GENERATED_TITLE_LENGTH)
+    .trim();
+}
@@ -0,0 +1,92 @@
+/**
+ * Token usage and cost helpers shared by the AI handlers and the usage screens
+ */
+
+import { TokenUsage, UsageTotals } from '@/types';
+import { MODEL_PRICES } from '@/config/aiConfig';
+
+export const EMPTY_TOKEN_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+
+/**
+ * Adds two token counts
+ */
+export const addTokenUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+});
+
+/**
+ * Adds one call's tokens to per-model running totals
+ *
+ * @param totals - Totals keyed by model id
+ * @param model - Model that was called
+ * @param usage - Tokens the call used
+ * @returns New totals; the input is not modified
+ */
+export function addModelUsage(
+  totals: Record<string, UsageTotals> | undefined,
+  model: string,
+  usage: TokenUsage
+): Record<string, UsageTotals> {
+  const current = totals?.[model] ?? { calls: 0, ...EMPTY_TOKEN_USAGE };
+  return {
+    ...totals,
+    [model]: { calls: current.calls + 1, ...addTokenUsage(current, usage) },
+  };
+}
+
+/**
+ * Sums per-model totals into one
+ */
+export const sumUsageTotals = (totals: Record<string, UsageTotals> | undefined): UsageTotals =>
+  Object.values(totals ?? {}).reduce(
+    (sum, entry) => ({ calls: sum.calls + entry.calls, ...addTokenUsage(sum, entry) }),
+    { calls: 0, ...EMPTY_TOKEN_USAGE }
+  );
+
+/**
+ * Estimated cost in US dollars from the configured model prices
+ *
+ * @returns The estimate, or null when the model has no configured price
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number | null {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Estimated cost of per-model totals; models without a price are left out
+ *
+ * @returns The estimate and whether any model had to be left out
+ */
+export function estimateTotalsCostUsd(totals: Record<string, UsageTotals> | undefined): {
+  cost: number;
+  hasUnpricedModels: boolean;
+} {
+  let cost = 0;
+  let hasUnpricedModels = false;
+
+  for (const [model, usage] of Object.entries(totals ?? {})) {
+    const modelCost = estimateCostUsd(model, usage);
+    if (modelCost === null) hasUnpricedModels = true;
+    else cost += modelCost;
+  }
+  return { cost, hasUnpricedModels };
+}
+
+/**
+ * Formats a token count compactly, e.g. `12.3k`
+ */
+export const formatTokenCount = (tokens: number): string =>
+  new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(tokens);
+
+/**
+ * Formats an estimated cost, keeping precision for the small amounts single calls cost
+ */
+export const formatCostUsd = (cost: number): string =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: cost > 0 && cost < 0.01 ? 4 : 2,
+  }).format(cost);
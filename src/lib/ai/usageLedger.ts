@@ -0,0 +1,39 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { TokenUsage } from '@/types';
+import { adminDb } from '@/lib/firebase-admin';
+import { AI_USAGE_COLLECTION } from '@/lib/ai/quota';
+import { logAiEvent } from '@/lib/ai/log';
+
+/** Subcollection of `aiUsage/{uid}` with one document per calendar month (UTC) */
+export const AI_USAGE_MONTHS_COLLECTION = 'months';
+
+/**
+ * Adds one generation's tokens to the user's monthly totals, stored in
+ * `aiUsage/{uid}/months/{YYYY-MM}` with the shape of MonthlyUsage. Failures are
+ * logged and swallowed; losing a usage record must not fail the answer.
+ *
+ * @param uid - The signed-in user
+ * @param model - Model that answered
+ * @param usage - Tokens used, including any repair call
+ * @param now - Current time, injectable for emulator tests
+ */
+export async function recordAiUsage(uid: string, model: string, usage: TokenUsage, now: Date = new Date()): Promise<void> {
+  const month = now.toISOString().slice(0, 7);
+  const increments = {
+    calls: FieldValue.increment(1),
+    promptTokens: FieldValue.increment(usage.promptTokens),
+    outputTokens: FieldValue.increment(usage.outputTokens),
+  };
+
+  try {
+    // Map keys in a merged set are literal field names, so model ids with dots are safe
+    await adminDb
+      .collection(AI_USAGE_COLLECTION).doc(uid)
+      .collection(AI_USAGE_MONTHS_COLLECTION).doc(month)
+      .set({ month, ...increments, models: { [model]: increments }, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+
+    logAiEvent('INFO', 'ai.usage', { uid, model, ...usage });
+  } catch (error) {
+    logAiEvent('ERROR', 'ai.usage_record_failed', { uid, model, ...usage, error });
+  }
+}
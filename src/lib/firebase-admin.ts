@@ -4,26 +4,35 @@ import { getAuth } from 'firebase-admin/auth';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// The Admin SDK connects to the emulators by itself when these are set,
+// and needs no credentials to do so
+const useEmulators = !!process.env.FIRESTORE_EMULATOR_HOST || !!process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
 // Load the service account key JSON file
-const serviceAccount = JSON.parse(
-  fs.readFileSync(
-    path.join(process.cwd(), 'config', 'service-account.json'),
-    'utf8'
-  )
-);
+const serviceAccountPath = path.join(process.cwd(), 'config', 'service-account.json');
+const serviceAccount = !useEmulators && fs.existsSync(serviceAccountPath)
+  ? JSON.parse(fs.readFileSync(serviceAccountPath, 'utf8'))
+  : null;
 
 // Initialize Firebase Admin SDK
 const apps = getApps();
 
+// Without a key file (emulators, or Google Cloud with application default credentials)
+// only the project id is needed
 const firebaseAdmin = apps.length === 0
-  ? initializeApp({
-      credential: cert(serviceAccount),
-      projectId: serviceAccount.project_id,
-      storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
-    })
+  ? initializeApp(serviceAccount
+    ? {
+        credential: cert(serviceAccount),
+        projectId: serviceAccount.project_id,
+        storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+      }
+    : {
+        projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT,
+        storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+      })
   : apps[0];
 
 const adminDb = getFirestore();
 const adminAuth = getAuth();
 
-export { firebaseAdmin, adminDb, adminAuth }; 
\ No newline at end of file
+export { firebaseAdmin, adminDb, adminAuth };
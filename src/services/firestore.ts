@@ -9,11 +9,12 @@ import {
   query, 
   where, 
   orderBy,
+  limit,
   serverTimestamp,
   DocumentData
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Node } from '@/types';
+import { MonthlyUsage, Node } from '@/types';
 
 /**
  * Firestore service for handling database operations
@@ -135,5 +136,36 @@ export const firestoreService = {
       console.error('Error deleting exploration session:', error);
       throw error;
     }
+  },
+  
+  /**
+   * Get a user's recorded AI usage for recent months
+   * 
+   * @param userId - User ID to get usage for
+   * @param months - Number of most recent months to return
+   * @returns Monthly usage, oldest month first
+   */
+  async getMonthlyUsage(userId: string, months: number = 12): Promise<MonthlyUsage[]> {
+    try {
+      const monthsRef = collection(db, 'aiUsage', userId, 'months');
+      const q = query(monthsRef, orderBy('month', 'desc'), limit(months));
+      
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs
+        .map(doc => {
+          const data = doc.data();
+          return {
+            month: data.month ?? doc.id,
+            calls: data.calls ?? 0,
+            promptTokens: data.promptTokens ?? 0,
+            outputTokens: data.outputTokens ?? 0,
+            models: data.models ?? {},
+          };
+        })
+        .reverse();
+    } catch (error) {
+      console.error('Error getting AI usage:', error);
+      throw error;
+    }
   }
 }; 
\ No newline at end of file
@@ -1,13 +1,50 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Node, Exploration, Connection, Branch } from '@/types';
+import {
+  Node,
+  AiAuditEntry,
+  AiAuditSummary,
+  Exploration,
+  ExplorationReport,
+  Connection,
+  Branch,
+  AiProviderId,
+  ChatTurn,
+  CrossLink,
+  ExploreMode,
+  ExploreOptions,
+  NodeGenerationInfo,
+  NodeUsage,
+  NodeVersion,
+} from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { NodeSize, DEFAULT_NODE_SIZE, NODE_SIZES } from '@/config/nodeConfig';
+import { addModelUsage } from '@/lib/ai/usage';
 
 // Default position values that work on both server and client
 const DEFAULT_X = 500;
 const DEFAULT_Y = 300;
 
+// AI calls kept in an exploration's audit log; older entries are dropped
+const MAX_AUDIT_LOG_ENTRIES = 200;
+
+// AI calls of an exploration whose summary is stored between sessions
+const MAX_STORED_AUDIT_LOG_ENTRIES = 50;
+
+// The latest calls of an audit log without their raw prompts and responses, which
+// would soon fill localStorage
+const summarizeAuditLog = (auditLog: (AiAuditEntry | AiAuditSummary)[]): AiAuditSummary[] =>
+  auditLog.slice(-MAX_STORED_AUDIT_LOG_ENTRIES).map((entry) => ({
+    kind: entry.kind,
+    provenance: entry.provenance,
+    ...(entry.repaired ? { repaired: true } : {}),
+    durationMs: entry.durationMs,
+  }));
+
+// Whether a link joins the two nodes, in either direction
+const isSamePair = (link: CrossLink, source: string, target: string): boolean =>
+  (link.source === source && link.target === target) || (link.source === target && link.target === source);
+
 // Helper to calculate appropriate node size based on content
 const calculateNodeSize = (node: Node): NodeSize => {
   // Calculate content length
@@ -26,6 +63,112 @@ const calculateNodeSize = (node: Node): NodeSize => {
   return 'sm';
 };
 
+// Spacing used when laying out the branches of a parent node
+const BRANCH_HORIZONTAL_OFFSET = 700;
+const BRANCH_VERTICAL_SPACING = 160;
+
+// Helper to position the branch at `index` of `total` in a column centered on its parent
+const getBranchPosition = (parentNode: Node, index: number, total: number): { x: number; y: number } => {
+  const totalHeight = (total - 1) * BRANCH_VERTICAL_SPACING;
+  const startY = parentNode.position.y - (totalHeight / 2);
+  
+  return {
+    x: parentNode.position.x + BRANCH_HORIZONTAL_OFFSET,
+    y: startY + (index * BRANCH_VERTICAL_SPACING)
+  };
+};
+
+// Generated branches of a node that the user has not built on yet (no question,
+// conversation or children of their own). Only these are replaced when the node
+// switches to another version.
+const getReplaceableChildren = (
+  nodes: Record<string, Node>,
+  connections: Connection[],
+  nodeId: string
+): Node[] =>
+  connections
+    .filter((conn) => conn.source === nodeId)
+    .map((conn) => nodes[conn.target])
+    .filter((child): child is Node =>
+      !!child &&
+      child.type === 'branch' &&
+      !child.synthesized &&
+      !child.question &&
+      !child.thread?.length &&
+      !connections.some((conn) => conn.source === child.id)
+    );
+
+// Capture what a node currently shows so it can be restored as a version
+const snapshotNodeVersion = (
+  nodes: Record<string, Node>,
+  connections: Connection[],
+  nodeId: string
+): NodeVersion => ({
+  title: nodes[nodeId].title,
+  content: nodes[nodeId].content,
+  fallbackModel: nodes[nodeId].fallbackModel,
+  usage: nodes[nodeId].usage,
+  provenance: nodes[nodeId].provenance,
+  branches: getReplaceableChildren(nodes, connections, nodeId)
+    .map((child) => ({ title: child.title, description: child.content })),
+  createdAt: new Date().toISOString(),
+});
+
+// Show a version on a node: swap its title and content, and replace its
+// replaceable children with the version's branches. New children take over the
+// positions of the ones they replace so manual layout is kept where possible.
+const applyNodeVersion = (
+  nodes: Record<string, Node>,
+  connections: Connection[],
+  nodeId: string,
+  version: NodeVersion,
+  versions: NodeVersion[],
+  versionIndex: number
+): { nodes: Record<string, Node>; connections: Connection[] } => {
+  const parentNode = nodes[nodeId];
+  const replaced = getReplaceableChildren(nodes, connections, nodeId);
+  const replacedIds = new Set(replaced.map((child) => child.id));
+  
+  const newNodes = Object.fromEntries(
+    Object.entries(nodes).filter(([id]) => !replacedIds.has(id))
+  );
+  const newConnections = connections.filter((conn) => !replacedIds.has(conn.target));
+  
+  newNodes[nodeId] = {
+    ...parentNode,
+    title: version.title,
+    content: version.content,
+    fallbackModel: version.fallbackModel,
+    usage: version.usage,
+    provenance: version.provenance,
+    versions,
+    versionIndex,
+  };
+  
+  version.branches.forEach((branch, index) => {
+    const child: Node = {
+      id: uuidv4(),
+      title: branch.title,
+      content: branch.description,
+      type: 'branch',
+      position: replaced[index]?.position ?? getBranchPosition(parentNode, index, version.branches.length),
+      size: DEFAULT_NODE_SIZE,
+    };
+    child.size = calculateNodeSize(child);
+    newNodes[child.id] = child;
+    newConnections.push({ source: nodeId, target: child.id });
+  });
+  
+  return { nodes: newNodes, connections: newConnections };
+};
+
+// Helper to place a synthesized node one column right of the rightmost node it
+// combines, level with their average height
+const getSynthesisPosition = (sourceNodes: Node[]): { x: number; y: number } => ({
+  x: Math.max(...sourceNodes.map((node) => node.position.x)) + BRANCH_HORIZONTAL_OFFSET,
+  y: sourceNodes.reduce((sum, node) => sum + node.position.y, 0) / sourceNodes.length,
+});
+
 // Helper Functions for collision detection and resolution
 const getNodeSize = (node: Node): { width: number; height: number } => {
   const size = node.size || calculateNodeSize(node);
@@ -130,20 +273,61 @@ export interface ExplorationState {
   // Connections
   connections: Connection[];
   
+  // Nodes picked with shift-click to be combined, in the order they were picked
+  selectedNodeIds: string[];
+  
   // Actions
   setActiveNode: (nodeId: string) => void;
   updateNodeContent: (nodeId: string, content: string) => void;
-  updateNodeQuestion: (nodeId: string, question: string) => void;
+  updateNodeQuestion: (nodeId: string, question: string, mode?: ExploreMode) => void;
   updateNodePosition: (nodeId: string, position: { x: number; y: number }) => void;
   addBranchNodes: (parentId: string, branchNodes: Node[]) => void;
+  appendBranchNode: (parentId: string, branchNode: Node, index: number, total: number) => void;
+  addFollowUpNode: (parentId: string, childNode: Node) => void;
+  // Add a node that combines several others, with a connection from each of them
+  addSynthesisNode: (sourceIds: string[], synthesisNode: Node) => void;
+  // Add a node to the selection, or take it out if it is already selected
+  toggleNodeSelection: (nodeId: string) => void;
+  clearNodeSelection: () => void;
+  setNodeThread: (nodeId: string, thread: ChatTurn[]) => void;
+  // Record how a node's new answer was generated, replacing what was recorded for the previous one
+  setNodeGenerationInfo: (nodeId: string, info: NodeGenerationInfo) => void;
+  // Add the tokens of one AI call to an exploration's totals
+  recordExplorationUsage: (explorationId: string, usage: NodeUsage) => void;
+  // Append one AI call to an exploration's audit log
+  recordAuditEntry: (explorationId: string, entry: AiAuditEntry) => void;
+  
+  // Keep the current state of a node as a version and show a newly generated one
+  addNodeVersion: (nodeId: string, version: Omit<NodeVersion, 'createdAt'>) => void;
+  // Show another stored version of a node
+  switchNodeVersion: (nodeId: string, versionIndex: number) => void;
   clearExploration: () => void;
   
   // New actions for managing explorations
   createNewExploration: (title?: string) => void;
   deleteExploration: (explorationId: string) => void;
   deleteNode: (nodeId: string) => void;
+  removeNodes: (nodeIds: string[]) => void;
   switchExploration: (explorationId: string) => void;
+  // Title an exploration as the user typed it; generated titles never replace it
   updateExplorationTitle: (explorationId: string, title: string) => void;
+  // Title an exploration with a generated title, unless the user has titled it
+  setGeneratedExplorationTitle: (explorationId: string, title: string) => void;
+  setExplorationProvider: (explorationId: string, provider: AiProviderId | undefined) => void;
+  
+  // Remember the answer options chosen for an exploration
+  setExplorationOptions: (explorationId: string, options: ExploreOptions) => void;
+  
+  // Choose the custom prompt template an exploration uses; undefined for the built-in prompts only
+  setExplorationPromptTemplate: (explorationId: string, templateId: string | undefined) => void;
+  
+  // Keep the latest generated report of an exploration, replacing the previous one
+  setExplorationReport: (explorationId: string, report: ExplorationReport) => void;
+  
+  // Keep a suggested link between two related nodes; a pair is linked at most once
+  addCrossLink: (explorationId: string, link: CrossLink) => void;
+  // Drop the link between two nodes, whichever way round it was made
+  removeCrossLink: (explorationId: string, source: string, target: string) => void;
   
   // Add a new action to handle repositioning nodes when one is expanded
   repositionOverlappingNodes: (expandedNodeId: string, expanded: boolean) => void;
@@ -154,6 +338,12 @@ export interface ExplorationState {
   // Helper function to check if a node has children
   hasChildNodes: (nodeId: string) => boolean;
   
+  // Helper to get the nodes from the root down to (and including) a node
+  getAncestorPath: (nodeId: string) => Node[];
+  
+  // Helper to get the nodes a node is connected from; a synthesized node has several
+  getParentNodes: (nodeId: string) => Node[];
+  
   // New action to manage connections
   setConnections: (newConnections: Connection[]) => void;
   
@@ -208,6 +398,8 @@ const useExplorationStore = create<ExplorationState>()(
         // Connections
         connections: [],
         
+        selectedNodeIds: [],
+        
         // Actions
         setActiveNode: (nodeId) => {
           set({ activeNodeId: nodeId });
@@ -230,6 +422,9 @@ const useExplorationStore = create<ExplorationState>()(
         
         updateNodeContent: (nodeId, content) => {
           set((state) => {
+            // Drop late updates for nodes that no longer exist
+            if (!state.nodes[nodeId]) return state;
+            
             const updatedNodes = {
               ...state.nodes,
               [nodeId]: {
@@ -256,7 +451,7 @@ const useExplorationStore = create<ExplorationState>()(
           });
         },
         
-        updateNodeQuestion: (nodeId, question) => {
+        updateNodeQuestion: (nodeId, question, mode) => {
           set((state) => {
             const { nodes, currentExplorationId, explorations } = state;
             const updatedNodes = { ...nodes };
@@ -266,10 +461,14 @@ const useExplorationStore = create<ExplorationState>()(
               return state;
             }
             
-            // Update node question
+            // Update node question, recording the exploration mode that produced it. A branch
+            // explored for the first time keeps its description, which the answer replaces.
+            const node = updatedNodes[nodeId];
             updatedNodes[nodeId] = {
-              ...updatedNodes[nodeId],
+              ...node,
               question,
+              mode,
+              ...(mode && !node.question ? { description: node.content } : {}),
             };
             
             // Update exploration title if this is the first question and exploration has no title or default title
@@ -286,6 +485,7 @@ const useExplorationStore = create<ExplorationState>()(
               if (!updatedExplorations[currentExplorationId].title || 
                   updatedExplorations[currentExplorationId].title.startsWith('Exploration ')) {
                 updatedExplorations[currentExplorationId].title = question;
+                updatedExplorations[currentExplorationId].titleSource = 'question';
               }
             }
             
@@ -323,23 +523,9 @@ const useExplorationStore = create<ExplorationState>()(
             const newConnections = [...state.connections];
             const parentNode = newNodes[parentId];
             
-            // Fixed spacing values
-            const horizontalOffset = 700; // Adjusted for better balance
-            const verticalSpacing = 160;
-            
-            // Calculate total height needed
-            const totalNodes = branchNodes.length;
-            const totalHeight = (totalNodes - 1) * verticalSpacing;
-            
-            // Calculate starting Y position to center the group
-            const startY = parentNode.position.y - (totalHeight / 2);
-            
             branchNodes.forEach((node, index) => {
               // Position each node
-              node.position = {
-                x: parentNode.position.x + horizontalOffset,
-                y: startY + (index * verticalSpacing)
-              };
+              node.position = getBranchPosition(parentNode, index, branchNodes.length);
               
               // Calculate appropriate size based on content
               node.size = calculateNodeSize(node);
@@ -366,6 +552,228 @@ const useExplorationStore = create<ExplorationState>()(
             return { nodes: newNodes, connections: newConnections, explorations };
           }),
         
+        // Incremental counterpart of addBranchNodes used while an answer streams in.
+        // `index` and `total` place the node in the same column addBranchNodes would use.
+        appendBranchNode: (parentId, branchNode, index, total) =>
+          set((state) => {
+            const parentNode = state.nodes[parentId];
+            if (!parentNode || state.nodes[branchNode.id]) return state;
+            
+            const node: Node = {
+              ...branchNode,
+              position: getBranchPosition(parentNode, index, Math.max(total, index + 1)),
+            };
+            node.size = calculateNodeSize(node);
+            
+            const newNodes = { ...state.nodes, [node.id]: node };
+            const newConnections = [...state.connections, { source: parentId, target: node.id }];
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes: newNodes,
+                    connections: newConnections,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes: newNodes, connections: newConnections, explorations };
+          }),
+        
+        // Add the answer node for a follow-up question below the parent's existing children
+        addFollowUpNode: (parentId, childNode) =>
+          set((state) => {
+            const parentNode = state.nodes[parentId];
+            if (!parentNode || state.nodes[childNode.id]) return state;
+            
+            const siblingYs = state.connections
+              .filter((connection) => connection.source === parentId)
+              .map((connection) => state.nodes[connection.target]?.position.y)
+              .filter((y): y is number => y !== undefined);
+            
+            const node: Node = {
+              ...childNode,
+              position: {
+                x: parentNode.position.x + BRANCH_HORIZONTAL_OFFSET,
+                y: siblingYs.length > 0 ? Math.max(...siblingYs) + BRANCH_VERTICAL_SPACING : parentNode.position.y,
+              },
+            };
+            node.size = calculateNodeSize(node);
+            
+            const newNodes = { ...state.nodes, [node.id]: node };
+            resolveCollisionsForNode(newNodes, node.id);
+            const newConnections = [...state.connections, { source: parentId, target: node.id }];
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes: newNodes,
+                    connections: newConnections,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes: newNodes, connections: newConnections, explorations };
+          }),
+        
+        // Place a synthesized node beside the nodes it combines and connect it from each of them
+        addSynthesisNode: (sourceIds, synthesisNode) =>
+          set((state) => {
+            const sourceNodes = sourceIds.map((id) => state.nodes[id]).filter((node): node is Node => !!node);
+            if (sourceNodes.length === 0 || state.nodes[synthesisNode.id]) return state;
+            
+            const node: Node = {
+              ...synthesisNode,
+              position: getSynthesisPosition(sourceNodes),
+            };
+            node.size = calculateNodeSize(node);
+            
+            const newNodes = { ...state.nodes, [node.id]: node };
+            resolveCollisionsForNode(newNodes, node.id);
+            const newConnections = [
+              ...state.connections,
+              ...sourceNodes.map((source) => ({ source: source.id, target: node.id })),
+            ];
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes: newNodes,
+                    connections: newConnections,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes: newNodes, connections: newConnections, explorations };
+          }),
+        
+        toggleNodeSelection: (nodeId) =>
+          set((state) => ({
+            selectedNodeIds: state.selectedNodeIds.includes(nodeId)
+              ? state.selectedNodeIds.filter((id) => id !== nodeId)
+              : [...state.selectedNodeIds, nodeId],
+          })),
+        
+        clearNodeSelection: () => set({ selectedNodeIds: [] }),
+        
+        // Replace a node's conversation thread
+        setNodeThread: (nodeId, thread) =>
+          set((state) => {
+            if (!state.nodes[nodeId]) return state;
+            
+            const newNodes = { ...state.nodes, [nodeId]: { ...state.nodes[nodeId], thread } };
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes: newNodes,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes: newNodes, explorations };
+          }),
+        
+        setNodeGenerationInfo: (nodeId, { fallbackModel, usage, provenance }) =>
+          set((state) => {
+            if (!state.nodes[nodeId]) return state;
+            
+            const newNodes = {
+              ...state.nodes,
+              [nodeId]: { ...state.nodes[nodeId], fallbackModel, usage, provenance },
+            };
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes: newNodes,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes: newNodes, explorations };
+          }),
+        
+        addNodeVersion: (nodeId, version) =>
+          set((state) => {
+            const node = state.nodes[nodeId];
+            if (!node) return state;
+            
+            // Save what is shown now into its slot first, in case it was edited or explored since
+            const versions = [...(node.versions ?? [])];
+            versions[node.versionIndex ?? 0] = snapshotNodeVersion(state.nodes, state.connections, nodeId);
+            
+            const newVersion: NodeVersion = { ...version, createdAt: new Date().toISOString() };
+            versions.push(newVersion);
+            
+            const { nodes, connections } = applyNodeVersion(
+              state.nodes, state.connections, nodeId, newVersion, versions, versions.length - 1
+            );
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes,
+                    connections,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes, connections, explorations };
+          }),
+        
+        switchNodeVersion: (nodeId, versionIndex) =>
+          set((state) => {
+            const node = state.nodes[nodeId];
+            if (!node?.versions?.[versionIndex] || versionIndex === node.versionIndex) return state;
+            
+            const versions = [...node.versions];
+            versions[node.versionIndex ?? 0] = snapshotNodeVersion(state.nodes, state.connections, nodeId);
+            
+            const { nodes, connections } = applyNodeVersion(
+              state.nodes, state.connections, nodeId, versions[versionIndex], versions, versionIndex
+            );
+            
+            const currentExplorationId = state.currentExplorationId;
+            const explorations = currentExplorationId
+              ? {
+                  ...state.explorations,
+                  [currentExplorationId]: {
+                    ...state.explorations[currentExplorationId],
+                    nodes,
+                    connections,
+                    updatedAt: new Date().toISOString(),
+                  },
+                }
+              : state.explorations;
+            
+            return { nodes, connections, explorations };
+          }),
+        
         clearExploration: () => {
           // Create a new exploration instead of clearing the current one
           const { createNewExploration } = get();
@@ -386,7 +794,9 @@ const useExplorationStore = create<ExplorationState>()(
             },
             currentExplorationId: newExploration.id,
             nodes: newExploration.nodes,
+            connections: [],
             activeNodeId: newExploration.activeNodeId,
+            selectedNodeIds: [],
           }));
         },
         
@@ -400,6 +810,7 @@ const useExplorationStore = create<ExplorationState>()(
             // or create a new one if there are none left
             let newCurrentId = currentExplorationId;
             let newNodes = state.nodes;
+            let newConnections = state.connections;
             let newActiveNodeId = state.activeNodeId;
             
             if (currentExplorationId === explorationId) {
@@ -409,6 +820,7 @@ const useExplorationStore = create<ExplorationState>()(
                 newCurrentId = remainingIds[0];
                 const currentExploration = updatedExplorations[newCurrentId];
                 newNodes = currentExploration.nodes;
+                newConnections = currentExploration.connections || [];
                 newActiveNodeId = currentExploration.activeNodeId;
               } else {
                 // Create a new exploration if none left
@@ -416,6 +828,7 @@ const useExplorationStore = create<ExplorationState>()(
                 updatedExplorations[newExploration.id] = newExploration;
                 newCurrentId = newExploration.id;
                 newNodes = newExploration.nodes;
+                newConnections = [];
                 newActiveNodeId = newExploration.activeNodeId;
               }
             }
@@ -424,7 +837,9 @@ const useExplorationStore = create<ExplorationState>()(
               explorations: updatedExplorations,
               currentExplorationId: newCurrentId,
               nodes: newNodes,
+              connections: newConnections,
               activeNodeId: newActiveNodeId,
+              selectedNodeIds: newCurrentId === currentExplorationId ? state.selectedNodeIds : [],
             };
           });
         },
@@ -455,13 +870,58 @@ const useExplorationStore = create<ExplorationState>()(
                 ...explorations[currentExplorationId],
                 nodes: updatedNodes,
                 activeNodeId: updatedActiveNodeId,
+                // Links to the deleted node go with it
+                crossLinks: explorations[currentExplorationId].crossLinks?.filter(
+                  (link) => link.source !== nodeId && link.target !== nodeId
+                ),
+                updatedAt: new Date().toISOString(),
+              }
+            } : explorations;
+            
+            return {
+              nodes: updatedNodes,
+              activeNodeId: updatedActiveNodeId,
+              selectedNodeIds: state.selectedNodeIds.filter((id) => id !== nodeId),
+              explorations: updatedExplorations,
+            };
+          });
+        },
+        
+        // Remove several nodes and every connection touching them, e.g. to roll back
+        // branches that were streamed in before a generation failed
+        removeNodes: (nodeIds) => {
+          if (nodeIds.length === 0) return;
+          
+          set((state) => {
+            const removed = new Set(nodeIds);
+            const updatedNodes = Object.fromEntries(
+              Object.entries(state.nodes).filter(([id]) => !removed.has(id))
+            );
+            const updatedConnections = state.connections.filter(
+              (conn) => !removed.has(conn.source) && !removed.has(conn.target)
+            );
+            const updatedActiveNodeId = removed.has(state.activeNodeId) ? '' : state.activeNodeId;
+            
+            const { currentExplorationId, explorations } = state;
+            const updatedExplorations = currentExplorationId ? {
+              ...explorations,
+              [currentExplorationId]: {
+                ...explorations[currentExplorationId],
+                nodes: updatedNodes,
+                connections: updatedConnections,
+                activeNodeId: updatedActiveNodeId,
+                crossLinks: explorations[currentExplorationId].crossLinks?.filter(
+                  (link) => !removed.has(link.source) && !removed.has(link.target)
+                ),
                 updatedAt: new Date().toISOString(),
               }
             } : explorations;
             
             return {
               nodes: updatedNodes,
+              connections: updatedConnections,
               activeNodeId: updatedActiveNodeId,
+              selectedNodeIds: state.selectedNodeIds.filter((id) => !removed.has(id)),
               explorations: updatedExplorations,
             };
           });
@@ -477,7 +937,9 @@ const useExplorationStore = create<ExplorationState>()(
             return {
               currentExplorationId: explorationId,
               nodes: exploration.nodes,
+              connections: exploration.connections || [],
               activeNodeId: exploration.activeNodeId,
+              selectedNodeIds: [],
             };
           });
         },
@@ -495,6 +957,7 @@ const useExplorationStore = create<ExplorationState>()(
               [explorationId]: {
                 ...explorations[explorationId],
                 title,
+                titleSource: 'manual' as const,
                 updatedAt: new Date().toISOString(),
               }
             };
@@ -505,6 +968,202 @@ const useExplorationStore = create<ExplorationState>()(
           });
         },
         
+        setGeneratedExplorationTitle: (explorationId, title) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            // The exploration may have been deleted, or titled by the user, while the title was generated
+            if (!explorations[explorationId] || explorations[explorationId].titleSource === 'manual') {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  title,
+                  titleSource: 'generated',
+                  updatedAt: new Date().toISOString(),
+                }
+              }
+            };
+          });
+        },
+        
+        setExplorationProvider: (explorationId, provider) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            if (!explorations[explorationId]) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  provider,
+                  updatedAt: new Date().toISOString(),
+                }
+              }
+            };
+          });
+        },
+        
+        setExplorationOptions: (explorationId, options) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            if (!explorations[explorationId]) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  exploreOptions: options,
+                  updatedAt: new Date().toISOString(),
+                }
+              }
+            };
+          });
+        },
+        
+        setExplorationPromptTemplate: (explorationId, templateId) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            if (!explorations[explorationId]) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  promptTemplateId: templateId,
+                  updatedAt: new Date().toISOString(),
+                }
+              }
+            };
+          });
+        },
+        
+        setExplorationReport: (explorationId, report) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            // The exploration may have been deleted while the report was generated
+            if (!explorations[explorationId]) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  report,
+                }
+              }
+            };
+          });
+        },
+        
+        addCrossLink: (explorationId, link) => {
+          set((state) => {
+            const { explorations } = state;
+            const exploration = explorations[explorationId];
+            
+            // The exploration may have been deleted while the links were found
+            if (!exploration || (exploration.crossLinks ?? []).some((existing) => isSamePair(existing, link.source, link.target))) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...exploration,
+                  crossLinks: [...(exploration.crossLinks ?? []), link],
+                  updatedAt: new Date().toISOString(),
+                }
+              }
+            };
+          });
+        },
+        
+        removeCrossLink: (explorationId, source, target) => {
+          set((state) => {
+            const { explorations } = state;
+            const exploration = explorations[explorationId];
+            
+            if (!exploration?.crossLinks) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...exploration,
+                  crossLinks: exploration.crossLinks.filter((link) => !isSamePair(link, source, target)),
+                  updatedAt: new Date().toISOString(),
+                }
+              }
+            };
+          });
+        },
+        
+        recordExplorationUsage: (explorationId, { model, ...usage }) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            // The exploration may have been deleted while the call was running
+            if (!explorations[explorationId]) {
+              return state;
+            }
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  usage: addModelUsage(explorations[explorationId].usage, model, usage),
+                }
+              }
+            };
+          });
+        },
+        
+        recordAuditEntry: (explorationId, entry) => {
+          set((state) => {
+            const { explorations } = state;
+            
+            // The exploration may have been deleted while the call was running
+            if (!explorations[explorationId]) {
+              return state;
+            }
+            
+            const auditLog = [...(explorations[explorationId].auditLog ?? []), entry];
+            
+            return {
+              explorations: {
+                ...explorations,
+                [explorationId]: {
+                  ...explorations[explorationId],
+                  auditLog: auditLog.slice(-MAX_AUDIT_LOG_ENTRIES),
+                }
+              }
+            };
+          });
+        },
+        
         // Add a new action to handle repositioning nodes when one is expanded
         repositionOverlappingNodes: (expandedNodeId, expanded) => {
           set((state) => {
@@ -685,6 +1344,33 @@ const useExplorationStore = create<ExplorationState>()(
           return childNodes.length > 0;
         },
         
+        // Helper to get the path from the root node down to a node by following connections
+        getAncestorPath: (nodeId: string) => {
+          const { nodes, connections } = get();
+          const path: Node[] = [];
+          const visited = new Set<string>();
+          let currentId: string | undefined = nodeId;
+          
+          while (currentId && nodes[currentId] && !visited.has(currentId)) {
+            visited.add(currentId);
+            path.unshift(nodes[currentId]);
+            
+            // A synthesized node has several parents; the path follows the first
+            const targetId: string = currentId;
+            currentId = connections.find((conn) => conn.target === targetId)?.source;
+          }
+          
+          return path;
+        },
+        
+        getParentNodes: (nodeId: string) => {
+          const { nodes, connections } = get();
+          return connections
+            .filter((conn) => conn.target === nodeId)
+            .map((conn) => nodes[conn.source])
+            .filter((node): node is Node => !!node);
+        },
+        
         // New action to manage connections
         setConnections: (newConnections: Connection[]) => {
           set((state) => {
@@ -735,6 +1421,16 @@ const useExplorationStore = create<ExplorationState>()(
     },
     {
       name: 'burrow-storage', // localStorage key
+      // Store audit logs as summaries; the raw text stays in memory for this session
+      partialize: (state) => ({
+        ...state,
+        explorations: Object.fromEntries(
+          Object.entries(state.explorations).map(([id, exploration]) => [
+            id,
+            exploration.auditLog ? { ...exploration, auditLog: summarizeAuditLog(exploration.auditLog) } : exploration,
+          ])
+        ),
+      }),
     }
   )
 );
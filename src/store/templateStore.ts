@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { CustomPromptTemplate } from '@/types';
+import { MAX_CUSTOM_TEMPLATE_INSTRUCTIONS_LENGTH, MAX_CUSTOM_TEMPLATE_NAME_LENGTH } from '@/lib/ai/templates';
+
+/**
+ * Editable fields of a custom template
+ */
+export type CustomPromptTemplateInput = Pick<CustomPromptTemplate, 'name' | 'description' | 'instructions'>;
+
+interface PromptTemplateState {
+  // The user's own templates, in the order they were created
+  customTemplates: CustomPromptTemplate[];
+
+  // Create a template and return its id
+  addCustomTemplate: (input: CustomPromptTemplateInput) => string;
+  // Edit a template; changing its instructions starts a new version
+  updateCustomTemplate: (templateId: string, input: CustomPromptTemplateInput) => void;
+  deleteCustomTemplate: (templateId: string) => void;
+  getCustomTemplate: (templateId: string | undefined) => CustomPromptTemplate | undefined;
+}
+
+// Trim the user's input to what the AI routes accept
+const cleanInput = ({ name, description, instructions }: CustomPromptTemplateInput): CustomPromptTemplateInput => ({
+  name: name.trim().slice(0, MAX_CUSTOM_TEMPLATE_NAME_LENGTH) || 'Untitled template',
+  description: description?.trim() || undefined,
+  instructions: instructions.trim().slice(0, MAX_CUSTOM_TEMPLATE_INSTRUCTIONS_LENGTH),
+});
+
+const usePromptTemplateStore = create<PromptTemplateState>()(
+  persist(
+    (set, get) => ({
+      customTemplates: [],
+
+      addCustomTemplate: (input) => {
+        const now = new Date().toISOString();
+        const template: CustomPromptTemplate = {
+          id: uuidv4(),
+          ...cleanInput(input),
+          version: 1,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set((state) => ({ customTemplates: [...state.customTemplates, template] }));
+        return template.id;
+      },
+
+      updateCustomTemplate: (templateId, input) => {
+        set((state) => ({
+          customTemplates: state.customTemplates.map((template) => {
+            if (template.id !== templateId) return template;
+
+            const cleaned = cleanInput(input);
+            return {
+              ...template,
+              ...cleaned,
+              version: cleaned.instructions !== template.instructions ? template.version + 1 : template.version,
+              updatedAt: new Date().toISOString(),
+            };
+          }),
+        }));
+      },
+
+      deleteCustomTemplate: (templateId) => {
+        set((state) => ({
+          customTemplates: state.customTemplates.filter((template) => template.id !== templateId),
+        }));
+      },
+
+      getCustomTemplate: (templateId) =>
+        templateId ? get().customTemplates.find((template) => template.id === templateId) : undefined,
+    }),
+    {
+      name: 'burrow-prompt-templates', // localStorage key
+    }
+  )
+);
+
+export { usePromptTemplateStore };
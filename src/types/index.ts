@@ -12,8 +12,46 @@ export interface Node {
   size: NodeSize;
   width?: number;
   height?: number;
-  description?: string;
+  description?: string; // A branch's description from before it was first explored in a mode
   question?: string;
+  mode?: ExploreMode; // How this node's answer was generated, when explored from a branch
+  thread?: ChatTurn[]; // Conversation about this node, oldest turn first
+  versions?: NodeVersion[]; // Generated versions of this node, once it has been regenerated
+  versionIndex?: number; // Index of the version currently shown
+  fallbackModel?: string; // Set when the answer came from the fallback model
+  usage?: NodeUsage; // Tokens used to generate the current answer
+  provenance?: NodeProvenance; // How the current answer was generated
+  synthesized?: boolean; // Set on nodes that combine the answers of all their parents
+}
+
+/**
+ * Facts about how a node's current answer was generated
+ */
+export type NodeGenerationInfo = Pick<Node, 'fallbackModel' | 'usage' | 'provenance'>;
+
+/**
+ * One generated version of a node's answer (or of a single branch)
+ */
+export interface NodeVersion {
+  title: string;
+  content: string;
+  branches: Branch[]; // Subtopics generated with this answer, shown as child nodes
+  fallbackModel?: string; // Set when this version came from the fallback model
+  usage?: NodeUsage; // Tokens used to generate this version
+  provenance?: NodeProvenance; // How this version was generated
+  createdAt: string;
+}
+
+/**
+ * One message in a node's conversation thread
+ */
+export interface ChatTurn {
+  id: string;
+  role: 'user' | 'model';
+  content: string;
+  fallbackModel?: string; // Set on model turns answered by the fallback model
+  provenance?: NodeProvenance; // How a model turn was generated
+  createdAt: string;
 }
 
 export interface Position {
@@ -21,6 +59,91 @@ export interface Position {
   y: number;
 }
 
+/**
+ * Tokens consumed by model calls
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Tokens used to generate one answer, and the model that used them
+ */
+export interface NodeUsage extends TokenUsage {
+  model: string;
+}
+
+/**
+ * Running totals for one model
+ */
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+}
+
+/**
+ * One user's AI usage in a calendar month (UTC), as recorded by the server
+ */
+export interface MonthlyUsage extends UsageTotals {
+  month: string; // YYYY-MM
+  models: Record<string, UsageTotals>; // The same totals per model id, for cost estimates
+}
+
+/**
+ * A user-defined prompt template, e.g. "explain for a 10-year-old". Its
+ * instructions are added to the built-in prompts of explorations that use it.
+ */
+export interface CustomPromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  instructions: string; // May use the {{question}}, {{answerLength}} and {{readingLevel}} variables
+  version: number; // Incremented whenever the instructions change
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * AI endpoints whose calls are recorded in the audit log
+ */
+export type AiCallKind = 'explore' | 'branch' | 'chat' | 'report' | 'ask' | 'title' | 'synthesis' | 'links';
+
+/**
+ * How an AI-generated answer was produced, stored with the answer
+ */
+export interface NodeProvenance {
+  requestId: string; // Links the answer to its entry in the exploration's audit log
+  provider: AiProviderId;
+  model: string; // Model that answered, which may be the fallback model
+  templateVersion: string; // Prompt template and its version, e.g. `explore-root@1`
+  customTemplate?: Pick<CustomPromptTemplate, 'id' | 'name' | 'version'>; // User template applied on top
+  mode?: ExploreMode;
+  options?: ExploreOptions; // Answer options the prompt was built with
+  contextHash: string; // SHA-256 of the ancestor path the prompt was built from
+  cached?: boolean; // Set when the answer was served from the response cache
+  createdAt: string;
+}
+
+/**
+ * The raw request and response of one AI call, kept per exploration so
+ * answers can be inspected later
+ */
+export interface AiAuditEntry {
+  kind: AiCallKind;
+  provenance: NodeProvenance;
+  systemInstruction?: string; // Fixed instructions sent apart from the prompt
+  prompt: string; // User message sent to the model, with request text in data blocks
+  response: string; // Raw model output, or the cached output on a cache hit
+  repaired?: boolean; // Set when the first output was invalid and `response` is the repaired one
+  durationMs: number;
+}
+
+/**
+ * What is stored of an AI call between sessions. The raw prompt and response
+ * are only kept in memory, so the stored log stays small.
+ */
+export type AiAuditSummary = Omit<AiAuditEntry, 'systemInstruction' | 'prompt' | 'response'>;
+
 export interface Branch {
   title: string;
   description: string;
@@ -31,17 +154,212 @@ export interface GeminiResponse {
   branches: Branch[];
 }
 
+/**
+ * A report as the model writes it. Sections refer to nodes by the reference
+ * they were given in the outline sent to the model, e.g. `n3`.
+ */
+export interface ReportResponse {
+  summary: string;
+  sections: ReportResponseSection[];
+}
+
+export interface ReportResponseSection {
+  ref: string;
+  summary: string;
+}
+
+/**
+ * An insight combining several nodes, as the model writes it
+ */
+export interface SynthesisResponse {
+  title: string;
+  insight: string;
+}
+
+/**
+ * How two related nodes in different parts of an exploration relate. Read
+ * from the link's source to its target, e.g. "source is an example of target".
+ */
+export type CrossLinkRelation = 'contradicts' | 'example_of' | 'same_concept';
+
+/**
+ * Cross-links as the model suggests them. Links name nodes by the reference
+ * they were given in the outline sent to the model, e.g. `n3`.
+ */
+export interface CrossLinkResponse {
+  links: CrossLinkResponseItem[];
+}
+
+export interface CrossLinkResponseItem {
+  source: string;
+  target: string;
+  relation: CrossLinkRelation;
+  reason: string;
+}
+
+/**
+ * A labeled link between related nodes in different subtrees. Drawn apart
+ * from the tree's connections and never treated as a parent and child.
+ */
+export interface CrossLink {
+  source: string; // ID of the node the relation is read from
+  target: string; // ID of the node it relates to
+  relation: CrossLinkRelation;
+  reason: string; // Why the nodes are related, in a sentence
+}
+
+/**
+ * Summary of one explored node in a report
+ */
+export interface ReportSection {
+  nodeId: string;
+  summary: string;
+}
+
+/**
+ * A digest of an exploration: an executive summary and one section per
+ * explored node. The dialog lays the sections out along the branch hierarchy.
+ */
+export interface ExplorationReport {
+  summary: string;
+  sections: ReportSection[]; // In the order the nodes appear in the tree
+  nodeCount: number; // Nodes the report was generated from
+  fallbackModel?: string; // Set when the report came from the fallback model
+  usage?: NodeUsage; // Tokens used to generate the report
+  provenance?: NodeProvenance; // How the report was generated
+  createdAt: string;
+}
+
+/**
+ * An answer to a question about a whole exploration, grounded in its nodes
+ */
+export interface ExplorationAnswer {
+  question: string;
+  text: string; // Cites nodes inline by reference, e.g. [n3]
+  citations: Record<string, string>; // Node IDs by the references the text cites
+  fallbackModel?: string; // Set when the answer came from the fallback model
+  provenance?: NodeProvenance; // How the answer was generated
+}
+
+/**
+ * One step on the path from the root question to the node being explored,
+ * sent to the API route so answers stay on topic
+ */
+export interface AncestorContext {
+  title: string;
+  question?: string;
+  content: string;
+}
+
+/**
+ * How long the answer to a question should be
+ */
+export type AnswerLength = 'brief' | 'standard' | 'detailed';
+
+/**
+ * Depth and vocabulary the answer is written for
+ */
+export type ReadingLevel = 'simple' | 'general' | 'expert';
+
+/**
+ * Ways a branch can be explored, each backed by its own prompt template
+ */
+export type ExploreMode = 'deeper' | 'examples' | 'counterargument' | 'history' | 'howto' | 'compare';
+
+/**
+ * Per-question generation options, remembered per exploration
+ */
+export interface ExploreOptions {
+  /** Number of branches to generate (1-10) */
+  branchCount: number;
+  answerLength: AnswerLength;
+  readingLevel: ReadingLevel;
+}
+
+/**
+ * How far an auto-burrow expands the branches below a node
+ */
+export interface AutoBurrowSettings {
+  /** Levels of branches to add below the node */
+  depth: number;
+  /** Branches explored per node on each level */
+  breadth: number;
+  /** Answers generated at the same time */
+  concurrency: number;
+}
+
+/**
+ * Error codes returned by the AI route
+ */
+export type AiErrorCode =
+  | 'invalid_request'
+  | 'unauthenticated'
+  | 'not_configured'
+  | 'quota_exceeded'
+  | 'upstream_unavailable'
+  | 'invalid_output'
+  | 'cancelled'
+  | 'internal_error';
+
+/**
+ * Body of a failed AI route response (also the payload of a streamed `error` event)
+ */
+export interface AiErrorBody {
+  error: {
+    code: AiErrorCode;
+    message: string;
+    /** Whether retrying the same request may succeed */
+    retryable: boolean;
+    /** ISO timestamp when a quota resets, for `quota_exceeded` */
+    resetAt?: string;
+  };
+}
+
+/**
+ * A user's AI request limits and what is left of today's, as returned by the quota route
+ */
+export interface AiQuotaStatus {
+  /** Requests allowed per UTC day */
+  dailyQuota: number;
+  /** Requests left today */
+  dailyRemaining: number;
+  /** Requests allowed per minute */
+  ratePerMinute: number;
+  /** ISO timestamp when the daily count resets */
+  dailyResetAt: string;
+}
+
+/**
+ * LLM backends the API route can use
+ */
+export type AiProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+/**
+ * Where an exploration's title came from: its first question, the model, or the user
+ */
+export type ExplorationTitleSource = 'question' | 'generated' | 'manual';
+
 export interface Exploration {
   id: string;
   title: string;
+  titleSource?: ExplorationTitleSource; // Unset on explorations saved before titles were tracked
   createdAt: string;
   updatedAt: string;
   nodes: Record<string, Node>;
+  connections?: Connection[];
   activeNodeId: string;
+  provider?: AiProviderId; // Overrides the deployment's default AI provider
+  exploreOptions?: ExploreOptions; // Last options used for questions in this exploration
+  promptTemplateId?: string; // Custom prompt template used for this exploration's AI calls
+  usage?: Record<string, UsageTotals>; // Tokens used by every AI call in this exploration, by model
+  auditLog?: (AiAuditEntry | AiAuditSummary)[]; // Recent AI calls made for this exploration, oldest first; raw text only for this session's calls
+  report?: ExplorationReport; // Latest generated report
+  crossLinks?: CrossLink[]; // Links between related nodes that the user accepted
 }
 
 /**
- * Connection between nodes
+ * Connection between nodes, from a parent to its child. Most nodes have one
+ * parent; a synthesized node has a connection from every node it combines.
  */
 export interface Connection {
   source: string; // ID of the source node
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AiError, toAiError } from '@/lib/ai/errors';
+import { ProviderError } from '@/lib/ai/providers';
+
+describe('toAiError', () => {
+  it('keeps an AiError as it is', () => {
+    const error = new AiError('quota_exceeded', 'Daily limit reached', { resetAt: '2026-03-02T00:00:00.000Z' });
+    assert.equal(toAiError(error), error);
+  });
+
+  it('maps an upstream rate limit to upstream_unavailable, not the user quota', () => {
+    const error = toAiError(new ProviderError('Too many requests', 429));
+    assert.equal(error.code, 'upstream_unavailable');
+    assert.equal(error.resetAt, undefined);
+    assert.equal(error.retryable, true);
+  });
+
+  it('maps rejected credentials to not_configured', () => {
+    assert.equal(toAiError(new ProviderError('Forbidden', 403)).code, 'not_configured');
+  });
+
+  it('maps an unusable body to invalid_output', () => {
+    assert.equal(toAiError(new ProviderError('Empty response')).code, 'invalid_output');
+  });
+});
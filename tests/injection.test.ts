@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Branch, ExploreOptions } from '@/types';
+import { DEFAULT_EXPLORE_OPTIONS } from '@/config/aiConfig';
+import { buildAncestorContext, normalizeAncestors } from '@/lib/ai/context';
+import { buildExplorePrompt } from '@/lib/ai/explore';
+import { buildBranchPrompt, normalizeBranch, normalizeBranches } from '@/lib/ai/branch';
+import { buildChatPrompt, normalizeThread } from '@/lib/ai/chat';
+import { AiProvider, GenerationRequest, resolveProvider } from '@/lib/ai/providers';
+import { DATA_BLOCK_TAGS, MAX_CONTENT_LENGTH, stripControlCharacters } from '@/lib/ai/sanitize';
+import { RenderedPrompt } from '@/lib/ai/templates';
+import { BRANCH_SCHEMA, EXPLORE_RESPONSE_SCHEMA, parseBranchResponse, parseExploreResponse } from '@/lib/ai/schema';
+import { InjectionTarget, PROMPT_INJECTION_CASES } from './fixtures/injectionCases';
+
+// Harmless text used in place of the payload to get the expected prompt
+const BENIGN_TEXT = 'How do tides work?';
+
+// Question, path and branches every case starts from
+const BASE_QUESTION = 'Why is the sky blue?';
+const BASE_ANCESTORS = [
+  { title: 'Light and colour', question: 'What is colour?', content: 'Colour is how we perceive wavelengths of light.' },
+  { title: 'Scattering of light', content: 'Small particles scatter short wavelengths more strongly.' },
+];
+const BASE_BRANCH: Branch = { title: 'Rayleigh scattering', description: 'Why short wavelengths scatter more.' };
+const BASE_SIBLING: Branch = { title: 'Sunsets', description: 'Why the sky turns red in the evening.' };
+
+// Provider the injected prompts are sent to. The mock checks the output
+// handling offline; set INJECTION_PROVIDER (e.g. gemini) to check a real
+// model whenever a template changes.
+const provider = resolveProvider(process.env.INJECTION_PROVIDER ?? 'mock');
+
+/**
+ * Builds the generation request for a case the way its route does, from a
+ * request body with `text` in the case's target field
+ */
+const buildCaseRequest = (target: InjectionTarget, text: string, options: ExploreOptions): GenerationRequest => {
+  const ancestors = normalizeAncestors(BASE_ANCESTORS.map((ancestor, index) =>
+    index === BASE_ANCESTORS.length - 1 && target === 'ancestorTitle' ? { ...ancestor, title: text }
+      : index === BASE_ANCESTORS.length - 1 && target === 'ancestorContent' ? { ...ancestor, content: text }
+      : ancestor
+  ));
+  const contextText = buildAncestorContext(ancestors);
+  // The routes clean the question and message themselves, before building the prompt
+  const clean = (value: string) => stripControlCharacters(value).trim();
+
+  if (target === 'replacedBranch' || target === 'siblingBranch') {
+    const replaced = normalizeBranch(target === 'replacedBranch' ? { ...BASE_BRANCH, title: text } : BASE_BRANCH)!;
+    const siblings = normalizeBranches([target === 'siblingBranch' ? { ...BASE_SIBLING, description: text } : BASE_SIBLING]);
+    return {
+      ...buildBranchPrompt(BASE_QUESTION, contextText, replaced, siblings, options),
+      topic: BASE_QUESTION,
+      responseSchema: BRANCH_SCHEMA,
+    };
+  }
+
+  if (target === 'chatMessage' || target === 'chatHistory') {
+    const message = target === 'chatMessage' ? clean(text) : BENIGN_TEXT;
+    const thread = normalizeThread([
+      { role: 'user', content: 'Tell me more.' },
+      { role: 'model', content: target === 'chatHistory' ? text : 'Happy to.' },
+    ]);
+    return { ...buildChatPrompt(message, thread, contextText), topic: message };
+  }
+
+  const question = target === 'question' ? clean(text) : BASE_QUESTION;
+  const { systemInstruction, prompt } = buildExplorePrompt(question, contextText, options);
+  return {
+    systemInstruction,
+    prompt,
+    topic: question,
+    branchCount: options.branchCount,
+    responseSchema: EXPLORE_RESPONSE_SCHEMA,
+  };
+};
+
+// Number of times each data block tag opens and closes in a user message
+const countDataBlockTags = (prompt: string): string =>
+  DATA_BLOCK_TAGS.map((tag) => `${prompt.split(`<${tag}>`).length - 1}/${prompt.split(`</${tag}>`).length - 1}`).join(',');
+
+/**
+ * Checks that the payload stays inside its data block: the system
+ * instruction and the data block structure match those built for harmless text
+ */
+const checkIsolation = (injected: RenderedPrompt, benign: RenderedPrompt): string[] => {
+  const problems: string[] = [];
+  if (injected.systemInstruction !== benign.systemInstruction) {
+    problems.push('the payload changed the system instruction');
+  }
+  if (countDataBlockTags(injected.prompt) !== countDataBlockTags(benign.prompt)) {
+    problems.push('the payload added or closed a data block');
+  }
+  if (stripControlCharacters(injected.prompt) !== injected.prompt) {
+    problems.push('control or invisible characters reached the prompt');
+  }
+  if (injected.prompt.length > benign.prompt.length + MAX_CONTENT_LENGTH) {
+    problems.push('the payload was not limited in length');
+  }
+  return problems;
+};
+
+/**
+ * Checks that the model's output to an injected request still has the
+ * required JSON structure. Chat replies are plain text and only need to be non-empty.
+ */
+const checkOutput = async (aiProvider: AiProvider, request: GenerationRequest): Promise<string[]> => {
+  const text = await aiProvider.generate(request);
+  if (request.responseSchema === BRANCH_SCHEMA) {
+    const result = parseBranchResponse(text);
+    return result.ok ? [] : result.errors;
+  }
+  if (request.responseSchema) {
+    const result = parseExploreResponse(text);
+    if (!result.ok) return result.errors;
+    return result.value.branches.length === request.branchCount
+      ? []
+      : [`expected ${request.branchCount} branches, got ${result.value.branches.length}`];
+  }
+  return text.trim() ? [] : ['the reply was empty'];
+};
+
+describe(`prompt injection cases (${provider.label})`, () => {
+  for (const injectionCase of PROMPT_INJECTION_CASES) {
+    it(injectionCase.name, async () => {
+      const injected = buildCaseRequest(injectionCase.target, injectionCase.payload, DEFAULT_EXPLORE_OPTIONS);
+      const benign = buildCaseRequest(injectionCase.target, BENIGN_TEXT, DEFAULT_EXPLORE_OPTIONS);
+
+      assert.deepEqual(checkIsolation(injected, benign), []);
+      assert.deepEqual(await checkOutput(provider, injected), []);
+    });
+  }
+});
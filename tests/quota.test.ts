@@ -0,0 +1,105 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AiError } from '@/lib/ai/errors';
+
+// The quota lives in Firestore, so these run only against the emulator:
+// `npm run test:emulators` starts it and sets FIRESTORE_EMULATOR_HOST
+const skip = !process.env.FIRESTORE_EMULATOR_HOST && 'needs the Firestore emulator (npm run test:emulators)';
+
+// Default limits; the emulator run does not override them
+const RATE_LIMIT_PER_MINUTE = 10;
+const DAILY_QUOTA = 200;
+
+describe('AI quota', { skip }, () => {
+  const uids: string[] = [];
+
+  // A user no other test has touched
+  const newUid = (): string => {
+    const uid = `quota-test-${Date.now()}-${uids.length}`;
+    uids.push(uid);
+    return uid;
+  };
+
+  // Loaded lazily so that a run without the emulator never initialises the Admin SDK
+  const load = async () => {
+    const [{ consumeAiQuota, getAiQuotaStatus, AI_USAGE_COLLECTION }, { adminDb }] = await Promise.all([
+      import('@/lib/ai/quota'),
+      import('@/lib/firebase-admin'),
+    ]);
+    return { consumeAiQuota, getAiQuotaStatus, usage: (uid: string) => adminDb.collection(AI_USAGE_COLLECTION).doc(uid) };
+  };
+
+  // Runs a call that should be refused and returns the error it was refused with
+  const refusal = async (call: Promise<void>): Promise<AiError> => {
+    const error = await call.then(() => undefined, (err: unknown) => err);
+    assert.ok(error instanceof AiError, 'expected the request to be refused');
+    assert.equal(error.code, 'quota_exceeded');
+    return error;
+  };
+
+  after(async () => {
+    const { usage } = await load();
+    await Promise.all(uids.map((uid) => usage(uid).delete()));
+  });
+
+  it('allows requests under the limits and counts them', async () => {
+    const { consumeAiQuota, usage } = await load();
+    const uid = newUid();
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    await consumeAiQuota(uid, now);
+    await consumeAiQuota(uid, new Date(now.getTime() + 1000));
+
+    const data = (await usage(uid).get()).data();
+    assert.equal(data?.windowCount, 2);
+    assert.equal(data?.dayCount, 2);
+    assert.equal(data?.day, '2026-03-01');
+  });
+
+  it('refuses requests over the per-minute limit until the window ends', async () => {
+    const { consumeAiQuota } = await load();
+    const uid = newUid();
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    for (let i = 0; i < RATE_LIMIT_PER_MINUTE; i++) {
+      await consumeAiQuota(uid, new Date(now.getTime() + i * 1000));
+    }
+
+    const error = await refusal(consumeAiQuota(uid, new Date(now.getTime() + 30 * 1000)));
+    assert.equal(error.resetAt, '2026-03-01T12:01:00.000Z');
+
+    await consumeAiQuota(uid, new Date(now.getTime() + 60 * 1000));
+  });
+
+  it('refuses requests over the daily quota until midnight UTC', async () => {
+    const { consumeAiQuota, usage } = await load();
+    const uid = newUid();
+    await usage(uid).set({ windowStart: 0, windowCount: 0, day: '2026-03-01', dayCount: DAILY_QUOTA });
+
+    const error = await refusal(consumeAiQuota(uid, new Date('2026-03-01T23:59:00Z')));
+    assert.equal(error.resetAt, '2026-03-02T00:00:00.000Z');
+
+    await consumeAiQuota(uid, new Date('2026-03-02T00:00:01Z'));
+    const data = (await usage(uid).get()).data();
+    assert.equal(data?.day, '2026-03-02');
+    assert.equal(data?.dayCount, 1);
+  });
+
+  it('reports what is left of the daily quota without counting a request', async () => {
+    const { consumeAiQuota, getAiQuotaStatus, usage } = await load();
+    const uid = newUid();
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    await consumeAiQuota(uid, now);
+    assert.deepEqual(await getAiQuotaStatus(uid, now), {
+      dailyQuota: DAILY_QUOTA,
+      dailyRemaining: DAILY_QUOTA - 1,
+      ratePerMinute: RATE_LIMIT_PER_MINUTE,
+      dailyResetAt: '2026-03-02T00:00:00.000Z',
+    });
+    assert.equal((await usage(uid).get()).data()?.dayCount, 1);
+
+    const tomorrow = await getAiQuotaStatus(uid, new Date('2026-03-02T08:00:00Z'));
+    assert.equal(tomorrow.dailyRemaining, DAILY_QUOTA);
+  });
+});